@@ -1,20 +1,186 @@
 #! /usr/bin/env node
 
 import * as path from 'path';
-import {getFileConstants, getProcessArgs} from "@monk-js/utils";
-import {buildDts, BundlerEnv, buildJs} from "@/utils";
+import fs from "fs";
+import {defineCli, getCliArgs, getFileConstants, getPackageVersion} from "@monk-js/utils";
+import {buildDts, BundleOptions, buildJs, resolveEntries} from "@/utils";
+import {BundleEntries, ExportsBuild, getExportsBuild, getMissingExports, PackageExports} from "@/entries";
+import {watchBuild} from "@/watch";
+import {BundlerConfig, getConfigOptions, resolveConfig, resolveConfigEntry} from "@/config";
+import {checkDualExports} from "@/dual";
+import {checkSizeBudgets, SizeReport} from "@/size";
 
-const {env, args} = getProcessArgs<BundlerEnv>(process.argv);
+const cli = defineCli({
+    name: 'monk-bundle',
+    description: 'Bundle TypeScript package in various formats with declarations',
+    usage: ['[options] --entry <file>', '[options] --exports'],
+    version: getPackageVersion(import.meta.url),
+    options: {
+        entry: {type: 'string', multiple: true, placeholder: 'file', description: 'Entry file, "path" or "name=path"'},
+        exports: {type: 'boolean', description: 'Infer entries and formats from package.json exports, bin, main, module and types'},
+        src: {type: 'string', placeholder: 'path', description: 'Sources directory of exports builds (default: usr/src or src)'},
+        root: {type: 'string', placeholder: 'path', description: 'Package directory'},
+        dist: {type: 'string', placeholder: 'path', description: 'Output directory (default: ./dist)'},
+        formats: {type: 'string', placeholder: 'formats', description: 'Output formats with extensions, comma separated (default: es:js,esm:mjs,cjs)'},
+        config: {type: 'string', placeholder: 'file', description: 'tsconfig.json path, false to use the default compiler options'},
+        configFile: {type: 'string', placeholder: 'file', description: 'Configuration file, instead of monk.config.* lookup'},
+        external: {type: 'string', placeholder: 'modules', description: 'External modules, comma separated or /regex/'},
+        autoExternal: {type: 'boolean', description: 'Derive externals from package.json dependencies'},
+        sourceMap: {type: 'boolean', alias: 'sourcemap', description: 'Generate source maps'},
+        module: {type: 'string', placeholder: 'name', description: 'Output module name of a single entry'},
+        minify: {type: 'boolean', description: 'Minify JS output'},
+        noJs: {type: 'boolean', description: 'Skip JS output'},
+        noDts: {type: 'boolean', description: 'Skip declarations output'},
+        dual: {type: 'boolean', description: 'Emit .mjs and .cjs with matching .d.mts and .d.cts declarations, verify both load with import and require'},
+        writeExports: {type: 'boolean', description: 'Save the conditional exports map of a dual build to package.json'},
+        banner: {type: 'string', placeholder: 'text', description: 'Text prepended to every JS output file'},
+        define: {type: 'string', multiple: true, placeholder: 'key=value', description: 'Replace global expression with code'},
+        watch: {type: 'boolean', description: 'Rebuild on change'},
+        budget: {type: 'string', multiple: true, placeholder: 'entry=size', description: 'Fail when the gzip size of an entry or output file exceeds the limit, e.g. index=10kB'},
+        sizeReport: {type: 'string', placeholder: 'file', description: 'Save the size report as JSON'},
+        compare: {type: 'string', placeholder: 'file', description: 'Show size changes against a saved size report'},
+        analyze: {type: 'string', placeholder: 'dir', description: 'Write module composition treemap as bundle-analysis.json and bundle-analysis.html'}
+    }
+});
+
+const {env: processEnv} = getCliArgs(cli);
+
+const {__root, __dirname} = getFileConstants(import.meta.url, processEnv.root ?? process.cwd());
 
-const {__root, __dirname} = getFileConstants(import.meta.url, env.root ?? process.cwd());
+let config: BundlerConfig;
+try {
+    config = await resolveConfig(__root, processEnv.configFile);
+} catch (e: unknown) {
+    console.error((e as Error).message);
+    process.exit(1);
+}
+
+// Command line options override the configuration file, `--define KEY=value` replacements override by key
+const {entry: entryValues, define: defineValues, budget: budgetValues, config: tsconfig, ...options} = processEnv;
+const defines = Object.fromEntries((defineValues ?? []).map(value => {
+    const separator = value.indexOf('=');
+    return separator === -1 ? [value, 'true'] : [value.substring(0, separator), value.substring(separator + 1)];
+}));
+const budgets = Object.fromEntries((budgetValues ?? []).map(value => {
+    const separator = value.lastIndexOf('=');
+    if (separator <= 0) {
+        console.error(`Invalid size budget "${value}", expected entry=size`);
+        process.exit(1);
+    }
+    return [value.substring(0, separator), value.substring(separator + 1)];
+}));
+const env: BundleOptions = {
+    ...getConfigOptions(config),
+    ...options,
+    ...(tsconfig != null ? {config: tsconfig === 'false' ? false : tsconfig} : {}),
+    define: {...config.define, ...defines},
+    budgets: {...config.budgets, ...budgets}
+};
 
 env.dist ??= `./dist`;
+// Auto externals read package.json from the root directory
+env.root = __root;
+for (const key of ['sizeReport', 'compare', 'analyze'] as const) {
+    if (env[key]) {
+        env[key] = path.resolve(__root, env[key]);
+    }
+}
+
+/**
+ * Fails the build if the JS output exceeds the size budgets, checked once every output is written
+ * @param report Size report of the JS build, unset if JS wasn't built
+ */
+function checkBudgets(report?: SizeReport): void {
+    const exceeded = report != null ? checkSizeBudgets(report, env.budgets ?? {}) : [];
+    if (exceeded.length > 0) {
+        console.error(exceeded.join('\n'));
+        process.exit(1);
+    }
+}
+
+/**
+ * Builds entries inferred from package.json and verifies every exported path was produced
+ * @param build Build plan inferred from package.json
+ * @param packageInfo package.json content
+ */
+async function buildExports(build: ExportsBuild, packageInfo: PackageExports): Promise<void> {
+    const buildOptions: BundleOptions = {...env, formats: env.formats ?? build.formats, dual: env.dual || build.dual};
+    let report: SizeReport | undefined;
+    if (!env.noJs && build.formats !== '') {
+        report = await buildJs(build.entries, path.resolve(__root, env.dist), __dirname, buildOptions);
+    }
+    if (!env.noDts && build.dts) {
+        await buildDts(build.entries, path.resolve(__root, env.dist), __dirname, buildOptions);
+    }
+
+    // Skipped outputs of a `--no-js` or `--no-dts` build are not verified
+    const missing = getMissingExports(packageInfo, __root, {js: !env.noJs, dts: !env.noDts});
+    if (missing.length > 0) {
+        console.error(`Exported paths were not produced: ${missing.join(', ')}`);
+        process.exit(1);
+    }
+    console.log(`Exported paths verified.`);
+    checkBudgets(report);
+}
+
+if (env.exports) {
+    // Entries and formats are inferred from the package.json exported paths
+    const packageInfo: PackageExports = JSON.parse(fs.readFileSync(path.resolve(__root, 'package.json'), 'utf-8'));
+    const src = path.resolve(__root, env.src ?? (fs.existsSync(path.resolve(__root, 'usr/src')) ? 'usr/src' : 'src'));
 
-if (env.entry) {
-    if (!env.noJs) {
-        await buildJs(path.resolve(__root, env.entry), path.resolve(__root, env.dist), __dirname, env);
+    let build: ExportsBuild;
+    try {
+        build = getExportsBuild(packageInfo, __root, path.resolve(__root, env.dist), src);
+    } catch (e: unknown) {
+        console.error((e as Error).message);
+        process.exit(1);
     }
-    if (!env.noDts) {
-        await buildDts(path.resolve(__root, env.entry), path.resolve(__root, env.dist), __dirname, env);
+    console.log(`Entries: ${Object.keys(build.entries).join(', ')}. Formats: ${env.formats ?? build.formats}`);
+
+    if (env.watch) {
+        watchBuild(build.entries, path.resolve(__root, env.dist), __dirname, {
+            ...env,
+            formats: env.formats ?? build.formats,
+            dual: env.dual || build.dual,
+            noJs: env.noJs || build.formats === '',
+            noDts: env.noDts || !build.dts
+        });
+    } else {
+        try {
+            await buildExports(build, packageInfo);
+        } catch (e: unknown) {
+            console.error((e as Error).message);
+            process.exit(1);
+        }
+    }
+} else if (entryValues?.length > 0 || config.entry) {
+    // Entry can be repeated, a single entry without a name keeps the `--module` output name
+    let entry: string | BundleEntries;
+    try {
+        entry = resolveConfigEntry(entryValues?.length > 0 ? entryValues : config.entry, __root);
+    } catch (e: unknown) {
+        console.error((e as Error).message);
+        process.exit(1);
+    }
+
+    if (env.watch) {
+        watchBuild(entry, path.resolve(__root, env.dist), __dirname, env);
+    } else {
+        try {
+            let report: SizeReport | undefined;
+            if (!env.noJs) {
+                report = await buildJs(entry, path.resolve(__root, env.dist), __dirname, env);
+            }
+            if (!env.noDts) {
+                await buildDts(entry, path.resolve(__root, env.dist), __dirname, env);
+            }
+            if (env.dual) {
+                checkDualExports(Object.keys(resolveEntries(entry, __dirname, env.module)), path.resolve(__root, env.dist), __root, env);
+            }
+            checkBudgets(report);
+        } catch (e: unknown) {
+            console.error((e as Error).message);
+            process.exit(1);
+        }
     }
 }
\ No newline at end of file
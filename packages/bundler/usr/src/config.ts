@@ -0,0 +1,235 @@
+import path from "path";
+import fs from "fs";
+import {pathToFileURL} from "url";
+import {randomBytes} from "node:crypto";
+import ts from "typescript";
+import {Plugin} from "rollup";
+import {BundleEntries, parseEntries} from "@/entries";
+import {BundleOptions} from "@/utils";
+import {SizeBudgets} from "@/size";
+
+/**
+ * monk-bundle project configuration, `monk.config.ts`, `.mts`, `.js`, `.mjs` or `.json`.
+ * Paths are relative to the package directory being built, so a root configuration applies to every package.
+ */
+export type BundlerConfig = {
+    /**
+     * Entry file, list of `path` or `name=path` entries, or entries by output module name
+     */
+    entry?: string | string[] | BundleEntries,
+    /**
+     * Output directory
+     */
+    dist?: string,
+    /**
+     * Output formats, e.g. `es:js,esm:mjs,cjs` or `['es:js', 'cjs']`
+     */
+    formats?: string | string[],
+    /**
+     * tsconfig.json path, or `false` to use the default compiler options
+     */
+    config?: string | false,
+    /**
+     * Additional external modules
+     */
+    external?: (string | RegExp)[],
+    /**
+     * Derive externals from package.json dependencies
+     */
+    autoExternal?: boolean,
+    sourceMap?: boolean,
+    minify?: boolean,
+    /**
+     * Output module name of a single entry
+     */
+    module?: string,
+    noJs?: boolean,
+    noDts?: boolean,
+    /**
+     * Infer entries and formats from package.json exports
+     */
+    exports?: boolean,
+    /**
+     * Sources directory of exports driven builds
+     */
+    src?: string,
+    /**
+     * Text prepended to every JS output file
+     */
+    banner?: string,
+    /**
+     * Replacements of global expressions with code, e.g. `{'process.env.NODE_ENV': '"production"'}`
+     */
+    define?: Record<string, string>,
+    /**
+     * Additional Rollup plugins, run after TypeScript
+     */
+    plugins?: Plugin[],
+    /**
+     * Emit `.mjs` and `.cjs` outputs with matching `.d.mts` and `.d.cts` declarations and verify both load in Node.js
+     */
+    dual?: boolean,
+    /**
+     * Size limits by entry name or output file name, e.g. `{index: '10 kB', cli: {brotli: '4 kB'}}`; a plain limit applies to the gzip size
+     */
+    budgets?: SizeBudgets,
+    /**
+     * Inherit the nearest configuration of a parent directory, `true` by default
+     */
+    extends?: boolean
+}
+
+/**
+ * Configuration file names, in lookup order
+ */
+export const CONFIG_FILES = ['monk.config.ts', 'monk.config.mts', 'monk.config.js', 'monk.config.mjs', 'monk.config.json'];
+
+/**
+ * Typed configuration helper for `monk.config.ts`.
+ *
+ * @param config Bundler configuration.
+ */
+export function defineConfig(config: BundlerConfig): BundlerConfig {
+    return config;
+}
+
+/**
+ * Finds the configuration file of a directory.
+ *
+ * @param directory Directory to search in.
+ * @returns Configuration file path, or `null` if there is none.
+ */
+export function findConfigFile(directory: string): string | null {
+    const file = CONFIG_FILES.map(name => path.resolve(directory, name)).find(file => fs.existsSync(file));
+    return file ?? null;
+}
+
+/**
+ * Loads a configuration file. TypeScript files are transpiled next to the original,
+ * so their relative and package imports resolve the same way.
+ *
+ * @param file Configuration file path.
+ * @returns Configuration, the default export of modules.
+ * @throws Error if the file can't be loaded or doesn't export an object.
+ */
+export async function loadConfigFile(file: string): Promise<BundlerConfig> {
+    let config: unknown;
+    try {
+        if (file.endsWith('.json')) {
+            config = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        } else if (/\.[cm]?ts$/.test(file)) {
+            const {outputText} = ts.transpileModule(fs.readFileSync(file, 'utf-8'), {
+                fileName: file,
+                compilerOptions: {module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022, esModuleInterop: true}
+            });
+            // Next to the source to resolve its imports, unique for concurrent builds
+            const compiled = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.mjs`;
+            fs.writeFileSync(compiled, outputText);
+            try {
+                config = (await import(pathToFileURL(compiled).href)).default;
+            } finally {
+                fs.rmSync(compiled, {force: true});
+            }
+        } else {
+            config = (await import(pathToFileURL(file).href)).default;
+        }
+    } catch (e: unknown) {
+        throw new Error(`Config: ${path.relative(process.cwd(), file) || file}. ${(e as Error).message}`);
+    }
+    if (config == null || typeof config !== 'object' || Array.isArray(config)) {
+        throw new Error(`Config: ${path.relative(process.cwd(), file) || file}. Expected an object as the default export`);
+    }
+
+    return config as BundlerConfig;
+}
+
+/**
+ * Merges a configuration over the inherited one: values are replaced,
+ * `define` replacements and `budgets` are merged by key and `plugins` are appended.
+ *
+ * @param base Inherited configuration.
+ * @param config Overriding configuration.
+ */
+export function mergeConfig(base: BundlerConfig, config: BundlerConfig): BundlerConfig {
+    return {
+        ...base,
+        ...config,
+        define: base.define || config.define ? {...base.define, ...config.define} : undefined,
+        budgets: base.budgets || config.budgets ? {...base.budgets, ...config.budgets} : undefined,
+        plugins: base.plugins || config.plugins ? [...base.plugins ?? [], ...config.plugins ?? []] : undefined
+    };
+}
+
+/**
+ * Checks whether a directory is the workspace root, i.e. its package.json declares `workspaces`.
+ *
+ * @param directory Directory to check.
+ */
+function isWorkspaceRoot(directory: string): boolean {
+    const file = path.resolve(directory, 'package.json');
+    return fs.existsSync(file) && JSON.parse(fs.readFileSync(file, 'utf-8')).workspaces != null;
+}
+
+/**
+ * Resolves the configuration of a package: its own configuration file merged over the nearest
+ * configuration of a parent directory, unless it sets `extends: false`. Parent directories
+ * are searched up to the workspace root.
+ *
+ * @param directory Package directory.
+ * @param file Explicit configuration file, parent configurations are not inherited from it.
+ */
+export async function resolveConfig(directory: string, file?: string): Promise<BundlerConfig> {
+    if (file != null) {
+        return loadConfigFile(path.resolve(directory, file));
+    }
+    const own = findConfigFile(directory);
+    const config = own != null ? await loadConfigFile(own) : {};
+    if (config.extends === false) {
+        return config;
+    }
+
+    let parent = directory;
+    while (!isWorkspaceRoot(parent) && parent !== path.dirname(parent)) {
+        parent = path.dirname(parent);
+        if (findConfigFile(parent) != null) {
+            return mergeConfig(await resolveConfig(parent), config);
+        }
+    }
+
+    return config;
+}
+
+/**
+ * Resolves configured entries to absolute paths. A single entry without a name keeps the `module` output name.
+ *
+ * @param entry Configured entry.
+ * @param root Package directory.
+ * @throws Error if an entry is invalid.
+ */
+export function resolveConfigEntry(entry: string | string[] | BundleEntries, root: string): string | BundleEntries {
+    const values = typeof entry === 'string' ? [entry] : entry;
+    if (Array.isArray(values) && values.length === 1 && !values[0].includes('=') && !values[0].includes(',')) {
+        return path.resolve(root, values[0]);
+    }
+    const entries = Array.isArray(values) ? parseEntries(values) : values;
+
+    return Object.fromEntries(Object.entries(entries).map(([name, file]) => [name, path.resolve(root, file)]));
+}
+
+/**
+ * Converts a configuration to build options, paths stay relative to the package directory.
+ *
+ * @param config Bundler configuration.
+ */
+export function getConfigOptions(config: BundlerConfig): BundleOptions {
+    // Entries are resolved with `resolveConfigEntry`, `extends` only applies to configuration files
+    const options: BundlerConfig = {...config};
+    delete options.entry;
+    delete options.extends;
+    delete options.formats;
+
+    return {
+        ...options as BundleOptions,
+        ...(config.formats != null ? {formats: Array.isArray(config.formats) ? config.formats.join(',') : config.formats} : {})
+    };
+}
\ No newline at end of file
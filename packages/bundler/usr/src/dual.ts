@@ -0,0 +1,161 @@
+import path from "path";
+import fs from "fs";
+import {execFile} from "child_process";
+import {pathToFileURL} from "url";
+import {OutputOptions, RollupOutput} from "rollup";
+import {formatJson, getJsonFormat} from "@monk-js/utils";
+import {BundleOptions, getDeclarationExtension, getFormats, parseFormats} from "@/utils";
+import {PackageExports, PackageExportsMap} from "@/entries";
+
+/**
+ * Time limit of loading an output file, entries starting servers or watchers never finish loading
+ */
+const LOAD_TIMEOUT = 10000;
+
+/**
+ * Package export conditions by output format
+ */
+const FORMAT_CONDITIONS: Record<string, 'import' | 'require'> = {
+    es: 'import',
+    esm: 'import',
+    module: 'import',
+    cjs: 'require',
+    commonjs: 'require'
+};
+
+/**
+ * Result of loading an output file
+ */
+type OutputLoad = {
+    /**
+     * Export names, sorted
+     */
+    exports?: string[],
+    error?: string
+}
+
+/**
+ * Loads a file in a separate Node.js process and lists its exports.
+ *
+ * @param file Output file path.
+ * @param condition `import` loads the file with `import()`, `require` with `require()`.
+ */
+function loadOutputFile(file: string, condition: 'import' | 'require'): Promise<OutputLoad> {
+    const load = condition === 'import' ? `await import(${JSON.stringify(pathToFileURL(file).href)})` : `require(${JSON.stringify(file)})`;
+    const args = [`--input-type=${condition === 'import' ? 'module' : 'commonjs'}`, '-e', `console.log(JSON.stringify(Object.keys(${load}).sort()));`];
+
+    return new Promise(resolve => {
+        execFile(process.execPath, args, {cwd: path.dirname(file), timeout: LOAD_TIMEOUT}, (error, stdout, stderr) => {
+            if (error == null) {
+                try {
+                    // The module itself may print before the export names
+                    resolve({exports: JSON.parse(stdout.trim().split('\n').pop())});
+                } catch {
+                    resolve({error: 'Exited before its exports were listed'});
+                }
+            } else {
+                // The error line of the stack printed by Node.js, e.g. `Error [ERR_REQUIRE_ESM]: require() of ES Module ...`
+                resolve({error: /^\w*Error\b.*$/m.exec(stderr)?.[0] ?? (error.killed ? `Timed out after ${LOAD_TIMEOUT}ms` : error.message)});
+            }
+        });
+    });
+}
+
+/**
+ * Checks that entry outputs load in Node.js the way consumers load them, `import()` of ES outputs
+ * and `require()` of CommonJS ones, and that every format of an entry has the same exports.
+ * Entries run as package bin are skipped, loading them runs the command.
+ *
+ * @param outputs Written Rollup outputs.
+ * @param options Output options of every output, in the same order.
+ * @param root Package directory.
+ * @returns Error messages by output file.
+ */
+export async function verifyOutputLoads(outputs: RollupOutput[], options: OutputOptions[], root: string): Promise<string[]> {
+    const packageFile = path.resolve(root, 'package.json');
+    const {bin}: PackageExports = fs.existsSync(packageFile) ? JSON.parse(fs.readFileSync(packageFile, 'utf-8')) : {};
+    const binFiles = (typeof bin === 'string' ? [bin] : Object.values(bin ?? {})).map(file => path.resolve(root, file));
+
+    const errors: string[] = [];
+    // Entry name => exports and file of the first loaded format
+    const expected: Record<string, { exports: string[], file: string }> = {};
+    for (const [index, output] of outputs.entries()) {
+        const condition = FORMAT_CONDITIONS[options[index].format];
+        if (condition == null) {
+            continue;
+        }
+        for (const chunk of output.output) {
+            const file = path.resolve(options[index].dir, chunk.fileName);
+            if (chunk.type !== 'chunk' || !chunk.isEntry || binFiles.includes(file)) {
+                continue;
+            }
+            const relative = path.relative(root, file);
+            const {exports, error} = await loadOutputFile(file, condition);
+            if (error != null) {
+                errors.push(`${relative} (${condition}): ${error}`);
+                continue;
+            }
+
+            expected[chunk.name] ??= {exports, file: relative};
+            if (exports.join() !== expected[chunk.name].exports.join()) {
+                const list = (names: string[]) => names.length > 0 ? names.join(', ') : 'nothing';
+                errors.push(`${relative} (${condition}): exports ${list(exports)}, ${expected[chunk.name].file} exports ${list(expected[chunk.name].exports)}`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Creates the conditional exports map of a dual package: `import` and `require` conditions
+ * with the declarations of their format, the `index` entry is the package root.
+ *
+ * @param names Output module names.
+ * @param buildDir The directory where the output files are generated.
+ * @param root Package directory.
+ * @param env Environment variable
+ */
+export function getDualExports(names: string[], buildDir: string, root: string, env: BundleOptions = {}): PackageExportsMap {
+    const dist = `./${path.relative(root, buildDir).replace(/\\/g, '/')}`.replace(/\/$/, '');
+    // Output extensions by condition, the first output of each condition wins, e.g. `.mjs` of `esm:mjs,es:js`
+    const conditions: Record<string, string> = {};
+    for (const {format, ext} of parseFormats(getFormats({...env, dual: true}))) {
+        if (FORMAT_CONDITIONS[format] != null) {
+            conditions[FORMAT_CONDITIONS[format]] ??= ext;
+        }
+    }
+
+    return Object.fromEntries(names.map(name => [
+        name === 'index' ? '.' : `./${name}`,
+        Object.fromEntries(Object.entries(conditions).map(([condition, ext]) => [condition, {
+            ...(!env.noDts ? {types: `${dist}/${name}.${getDeclarationExtension(ext)}`} : {}),
+            default: `${dist}/${name}.${ext}`
+        }]))
+    ]));
+}
+
+/**
+ * Compares the package.json `exports` with the dual exports map, the map is printed when they differ
+ * or saved with `writeExports`, keeping the package.json formatting.
+ *
+ * @param names Output module names.
+ * @param buildDir The directory where the output files are generated.
+ * @param root Package directory.
+ * @param env Environment variable
+ */
+export function checkDualExports(names: string[], buildDir: string, root: string, env: BundleOptions = {}): void {
+    const file = path.resolve(root, 'package.json');
+    const content = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : '{}';
+    const packageInfo: PackageExports & Record<string, unknown> = JSON.parse(content);
+    const exports = getDualExports(names, buildDir, root, env);
+
+    if (JSON.stringify(packageInfo.exports) === JSON.stringify(exports)) {
+        console.log(`Exports map verified.`);
+    } else if (env.writeExports) {
+        fs.writeFileSync(file, formatJson({...packageInfo, exports}, getJsonFormat(content)));
+        console.log(`Exports map written to ${path.relative(process.cwd(), file) || file}`);
+    } else {
+        console.warn(`package.json exports don't match the dual output, save them with --write-exports:\n${JSON.stringify({exports}, null, 2)}`);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,207 @@
+import path from "path";
+import fs from "fs";
+
+/**
+ * Bundle entries: output module name => source file path
+ */
+export type BundleEntries = Record<string, string>;
+
+/**
+ * package.json fields describing the build output
+ */
+export type PackageExports = {
+    type?: 'module' | 'commonjs',
+    main?: string,
+    module?: string,
+    types?: string,
+    typings?: string,
+    bin?: string | Record<string, string>,
+    exports?: string | null | PackageExportsMap | PackageExportsMap[]
+}
+
+/**
+ * Conditional or subpath exports map
+ */
+export type PackageExportsMap = { [key: string]: string | null | PackageExportsMap | PackageExportsMap[] };
+
+/**
+ * Build plan inferred from package.json
+ */
+export type ExportsBuild = {
+    entries: BundleEntries,
+    /**
+     * Output formats, e.g. `es:js,esm:mjs`
+     */
+    formats: string,
+    /**
+     * Whether declaration files are exported
+     */
+    dts: boolean,
+    /**
+     * Whether declarations are exported per format, `.d.mts` or `.d.cts`
+     */
+    dual: boolean
+}
+
+/**
+ * Source file extensions, in lookup order
+ */
+const SOURCE_EXTENSIONS = ['.ts', '.mts', '.tsx', '.js', '.mjs'];
+
+/**
+ * Output extensions with their formats, `.js` depends on the package type
+ */
+const OUTPUT_FORMATS: Record<string, string> = {
+    '.mjs': 'esm:mjs',
+    '.cjs': 'cjs:cjs'
+};
+
+/**
+ * Declaration file extensions
+ */
+const DTS_EXTENSIONS = ['.d.ts', '.d.mts', '.d.cts'];
+
+/**
+ * Parses entry arguments: `path`, `name=path` or comma separated lists of them.
+ * The module name of a plain path is its file name without extension.
+ *
+ * @param values Entry arguments.
+ * @throws Error if two entries have the same module name.
+ */
+export function parseEntries(values: string[]): BundleEntries {
+    const entries: BundleEntries = {};
+
+    for (const value of values.flatMap(value => value.split(',')).map(value => value.trim()).filter(value => value !== '')) {
+        const separator = value.indexOf('=');
+        const file = separator === -1 ? value : value.substring(separator + 1);
+        const name = separator === -1 ? path.basename(file, path.extname(file)) : value.substring(0, separator);
+        if (Object.hasOwn(entries, name)) {
+            throw new Error(`Duplicate entry name "${name}": ${entries[name]}, ${file}`);
+        }
+        entries[name] = file;
+    }
+
+    return entries;
+}
+
+/**
+ * Lists every file path exported by the package: `exports` targets, `bin`, `main`, `module` and `types`.
+ * Paths with `*` patterns are not included.
+ *
+ * @param packageInfo package.json content.
+ * @returns Paths relative to the package directory.
+ */
+export function getExportedPaths(packageInfo: PackageExports): string[] {
+    const paths = new Set<string>();
+    const add = (value: unknown) => {
+        if (typeof value === 'string') {
+            if (!value.includes('*')) {
+                paths.add(path.normalize(value));
+            }
+        } else if (Array.isArray(value)) {
+            value.forEach(add);
+        } else if (value != null && typeof value === 'object') {
+            Object.values(value).forEach(add);
+        }
+    };
+
+    add(packageInfo.exports);
+    add(packageInfo.bin);
+    add(packageInfo.main);
+    add(packageInfo.module);
+    add(packageInfo.types);
+    add(packageInfo.typings);
+
+    return [...paths];
+}
+
+/**
+ * Finds the source file of an output module.
+ *
+ * @param srcDir Source directory.
+ * @param name Output module name, e.g. `utils` or `cli/index`.
+ * @returns Source file path, or `null` if it doesn't exist.
+ */
+function findSourceFile(srcDir: string, name: string): string | null {
+    for (const ext of SOURCE_EXTENSIONS) {
+        const file = path.resolve(srcDir, name + ext);
+        if (fs.existsSync(file)) {
+            return file;
+        }
+    }
+    return null;
+}
+
+/**
+ * Infers entries and formats from the package.json exported paths: `dist/utils.js` is built from `<src>/utils.ts`,
+ * `.mjs` files add the `esm:mjs` format, `.cjs` files the `cjs` one, `.js` files follow the package type.
+ * `.d.mts` and `.d.cts` declarations make it a dual build with declarations per format.
+ * Existing files outside of the output directory are not built.
+ *
+ * @param packageInfo package.json content.
+ * @param root Package directory.
+ * @param dist Output directory.
+ * @param src Source directory.
+ * @throws Error if an exported path is outside of the output directory or has no source file.
+ */
+export function getExportsBuild(packageInfo: PackageExports, root: string, dist: string, src: string): ExportsBuild {
+    const entries: BundleEntries = {};
+    const formats = new Set<string>();
+    let dts = false;
+    let dual = false;
+    const errors: string[] = [];
+
+    for (const exported of getExportedPaths(packageInfo)) {
+        const file = path.resolve(root, exported);
+        const relative = path.relative(dist, file);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            // Files like `./package.json` are exported as is
+            if (!fs.existsSync(file)) {
+                errors.push(`${exported} is outside of the output directory ${path.relative(root, dist) || '.'} and doesn't exist`);
+            }
+            continue;
+        }
+
+        const dtsExt = DTS_EXTENSIONS.find(ext => relative.endsWith(ext));
+        const ext = dtsExt ?? path.extname(relative);
+        const name = relative.substring(0, relative.length - ext.length).replace(/\\/g, '/');
+        if (dtsExt != null) {
+            dts = true;
+            dual ||= dtsExt !== '.d.ts';
+        } else if (ext === '.js') {
+            formats.add(packageInfo.type === 'module' ? 'es:js' : 'cjs:js');
+        } else if (Object.hasOwn(OUTPUT_FORMATS, ext)) {
+            formats.add(OUTPUT_FORMATS[ext]);
+        } else {
+            errors.push(`${exported} has unsupported extension "${ext}"`);
+            continue;
+        }
+
+        const source = findSourceFile(src, name);
+        if (source == null) {
+            errors.push(`${exported} has no source file ${path.relative(root, path.resolve(src, name))}{${SOURCE_EXTENSIONS.join(',')}}`);
+            continue;
+        }
+        entries[name] = source;
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid package exports:\n  ${errors.join('\n  ')}`);
+    }
+
+    return {entries, formats: [...formats].join(','), dts, dual};
+}
+
+/**
+ * Lists exported paths which don't exist.
+ *
+ * @param packageInfo package.json content.
+ * @param root Package directory.
+ * @param kinds Kinds of paths to check, e.g. `{dts: false}` skips declarations when they weren't built.
+ * @returns Missing paths relative to the package directory.
+ */
+export function getMissingExports(packageInfo: PackageExports, root: string, kinds: { js?: boolean, dts?: boolean } = {}): string[] {
+    return getExportedPaths(packageInfo)
+        .filter(exported => (DTS_EXTENSIONS.some(ext => exported.endsWith(ext)) ? kinds.dts : kinds.js) !== false)
+        .filter(exported => !fs.existsSync(path.resolve(root, exported)));
+}
\ No newline at end of file
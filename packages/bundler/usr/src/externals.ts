@@ -0,0 +1,104 @@
+import path from "path";
+import fs from "fs";
+import {isBuiltin} from "node:module";
+
+/**
+ * package.json dependency fields used to decide what is bundled
+ */
+export type PackageDependencies = {
+    name?: string,
+    dependencies?: Record<string, string>,
+    devDependencies?: Record<string, string>,
+    peerDependencies?: Record<string, string>,
+    optionalDependencies?: Record<string, string>
+}
+
+/**
+ * Rollup `external` option callback
+ */
+export type ExternalCallback = (id: string, importer: string | undefined, isResolved: boolean) => boolean;
+
+/**
+ * Valid npm package name at the start of an import specifier
+ */
+const PACKAGE_NAME_PATTERN = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*/;
+
+/**
+ * Returns the package name of a bare import specifier, e.g. `rollup/parseAst` => `rollup`, `@scope/pkg/sub` => `@scope/pkg`.
+ *
+ * @param specifier Import specifier.
+ * @returns Package name, or `null` for relative, absolute, aliased and virtual imports.
+ */
+export function getPackageName(specifier: string): string | null {
+    if (specifier.startsWith('.') || specifier.startsWith('\0') || path.isAbsolute(specifier)) {
+        return null;
+    }
+    const match = PACKAGE_NAME_PATTERN.exec(specifier);
+    // Aliases like `@/utils` or `#/gen` are not package names
+    if (!match || (match[0].length !== specifier.length && specifier[match[0].length] !== '/')) {
+        return null;
+    }
+    return match[0];
+}
+
+/**
+ * Reads package.json dependency fields.
+ *
+ * @param root Package directory.
+ */
+export function readPackageDependencies(root: string): PackageDependencies {
+    return JSON.parse(fs.readFileSync(path.resolve(root, 'package.json'), 'utf-8'));
+}
+
+/**
+ * Creates the Rollup `external` callback from package.json: Node.js builtins, `dependencies`, `peerDependencies`
+ * and `optionalDependencies` (including deep imports) are external, `devDependencies` are bundled.
+ * Imports of undeclared packages stay external and are reported once per package, unless they come from bundled code.
+ *
+ * @param packageInfo package.json dependency fields.
+ * @param extra Additional externals, e.g. from the `--external` option.
+ * @param warn Undeclared import handler.
+ */
+export function createAutoExternal(
+    packageInfo: PackageDependencies,
+    extra: (string | RegExp)[] = [],
+    warn: (name: string, importer: string | undefined) => void = (name, importer) =>
+        console.warn(`Warning: "${name}" is imported${importer ? ` by ${importer}` : ''} but not declared in package.json`)
+): ExternalCallback {
+    const external = new Set([
+        ...Object.keys(packageInfo.dependencies ?? {}),
+        ...Object.keys(packageInfo.peerDependencies ?? {}),
+        ...Object.keys(packageInfo.optionalDependencies ?? {})
+    ]);
+    const bundled = new Set(Object.keys(packageInfo.devDependencies ?? {}));
+    const reported = new Set<string>();
+
+    return (id, importer, isResolved) => {
+        if (extra.some(item => typeof item === 'string' ? item === id : item.test(id))) {
+            return true;
+        }
+        // Resolved paths were already checked as import specifiers
+        if (isResolved) {
+            return false;
+        }
+        if (id.startsWith('node:') || isBuiltin(id)) {
+            return true;
+        }
+        const name = getPackageName(id);
+        if (name == null || bundled.has(name)) {
+            return false;
+        }
+        if (external.has(name) || name === packageInfo.name) {
+            return true;
+        }
+        // Dependencies of bundled dev dependencies are bundled too
+        if (importer != null && /[\\/]node_modules[\\/]/.test(importer)) {
+            return false;
+        }
+        if (!reported.has(name)) {
+            reported.add(name);
+            warn(name, importer);
+        }
+        return true;
+    };
+}
\ No newline at end of file
@@ -1 +1,7 @@
-export * from '@/utils';
\ No newline at end of file
+export * from '@/utils';
+export * from '@/entries';
+export * from '@/externals';
+export * from '@/watch';
+export * from '@/config';
+export * from '@/size';
+export * from '@/dual';
\ No newline at end of file
@@ -0,0 +1,413 @@
+import path from "path";
+import fs from "fs";
+import zlib from "zlib";
+import {minify} from "terser";
+import {OutputChunk, RollupOutput} from "rollup";
+import {BundleOptions} from "@/utils";
+
+/**
+ * Size measure of an output file
+ */
+export type SizeMetric = 'raw' | 'minified' | 'gzip' | 'brotli';
+
+/**
+ * Size measures, in the order of the report columns
+ */
+export const SIZE_METRICS: SizeMetric[] = ['raw', 'minified', 'gzip', 'brotli'];
+
+/**
+ * Sizes in bytes by measure
+ */
+export type FileSize = Record<SizeMetric, number>;
+
+/**
+ * Output file size
+ */
+export type OutputFileSize = FileSize & {
+    /**
+     * File path relative to the output directory
+     */
+    file: string,
+    /**
+     * Entry name of an entry chunk, `null` for shared chunks
+     */
+    entry: string | null
+}
+
+/**
+ * Entry size: the entry chunk with every chunk it statically imports
+ */
+export type EntrySize = FileSize & {
+    name: string,
+    file: string,
+    files: string[]
+}
+
+/**
+ * Size report, saved with `--size-report` and compared with `--compare`
+ */
+export type SizeReport = {
+    files: OutputFileSize[],
+    entries: EntrySize[]
+}
+
+/**
+ * Size limit: bytes or a size string like `10 kB`, a plain limit applies to the gzip size
+ */
+export type SizeBudget = number | string | Partial<Record<SizeMetric, number | string>>;
+
+/**
+ * Size limits by entry name (every format) or output file name
+ */
+export type SizeBudgets = Record<string, SizeBudget>;
+
+/**
+ * Bytes contributed by a module to an output file, after tree-shaking
+ */
+export type ModuleSize = {
+    id: string,
+    size: number
+}
+
+/**
+ * Module composition of the output files
+ */
+export type BundleAnalysis = {
+    files: { file: string, size: number, modules: ModuleSize[] }[]
+}
+
+/**
+ * Size units, decimal units are used for formatting
+ */
+const SIZE_UNITS: Record<string, number> = {b: 1, kb: 1000, mb: 1000 ** 2, kib: 1024, mib: 1024 ** 2};
+
+/**
+ * Parses a size, e.g. `10 kB`, `1.5MB`, `512KiB` or a number of bytes.
+ *
+ * @param value Size string or bytes.
+ * @throws Error if the size is invalid.
+ */
+export function parseSize(value: number | string): number {
+    if (typeof value === 'number') {
+        return value;
+    }
+    const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(value);
+    const unit = SIZE_UNITS[(match?.[2] || 'b').toLowerCase()];
+    if (!match || unit == null) {
+        throw new Error(`Invalid size "${value}", expected bytes or a size like 10 kB`);
+    }
+    return Math.round(parseFloat(match[1]) * unit);
+}
+
+/**
+ * Formats bytes, e.g. `512 B`, `12.34 kB`.
+ *
+ * @param bytes Size in bytes.
+ */
+export function formatSize(bytes: number): string {
+    const absolute = Math.abs(bytes);
+    if (absolute < 1000) {
+        return `${bytes} B`;
+    }
+    return absolute < 1000 ** 2 ? `${(bytes / 1000).toFixed(2)} kB` : `${(bytes / 1000 ** 2).toFixed(2)} MB`;
+}
+
+/**
+ * Measures a file: raw, minified, gzip and brotli sizes.
+ *
+ * @param code File content.
+ * @param minified Whether the content is minified already.
+ */
+export async function getFileSize(code: string, minified: boolean): Promise<FileSize> {
+    const raw = Buffer.byteLength(code);
+    let minifiedSize = raw;
+    if (!minified) {
+        // Code terser can't parse (e.g. a hashbang in CommonJS) is measured as is
+        const result = await minify(code, {module: true}).catch(() => null);
+        minifiedSize = result?.code != null ? Buffer.byteLength(result.code) : raw;
+    }
+
+    return {
+        raw,
+        minified: minifiedSize,
+        gzip: zlib.gzipSync(code, {level: 9}).length,
+        brotli: zlib.brotliCompressSync(code, {params: {[zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY}}).length
+    };
+}
+
+/**
+ * Sums sizes.
+ *
+ * @param sizes File sizes.
+ */
+function sumSizes(sizes: FileSize[]): FileSize {
+    return Object.fromEntries(SIZE_METRICS.map(metric => [metric, sizes.reduce((sum, size) => sum + size[metric], 0)])) as FileSize;
+}
+
+/**
+ * Measures the chunks written by Rollup, source maps and assets are not measured.
+ *
+ * @param outputs Rollup write results.
+ * @param minified Whether the outputs are minified.
+ */
+export async function getSizeReport(outputs: RollupOutput[], minified: boolean): Promise<SizeReport> {
+    const chunks = outputs.flatMap(output => output.output.filter((item): item is OutputChunk => item.type === 'chunk'));
+    const sizes: Record<string, OutputFileSize> = {};
+
+    for (const chunk of chunks) {
+        sizes[chunk.fileName] = {file: chunk.fileName, entry: chunk.isEntry ? chunk.name : null, ...await getFileSize(chunk.code, minified)};
+    }
+
+    const byFile = Object.fromEntries(chunks.map(chunk => [chunk.fileName, chunk]));
+    const getFiles = (file: string, files: Set<string>): Set<string> => {
+        if (!files.has(file) && byFile[file]) {
+            files.add(file);
+            byFile[file].imports.forEach(imported => getFiles(imported, files));
+        }
+        return files;
+    };
+    const entries: EntrySize[] = chunks.filter(chunk => chunk.isEntry).map(chunk => {
+        const files = [...getFiles(chunk.fileName, new Set())];
+        return {name: chunk.name, file: chunk.fileName, files, ...sumSizes(files.map(file => sizes[file]))};
+    });
+
+    return {files: Object.values(sizes), entries};
+}
+
+/**
+ * File name without the chunk hash, so chunks of different builds can be compared.
+ *
+ * @param file Output file name.
+ */
+function getComparableName(file: string): string {
+    return file.replace(/-[A-Za-z0-9_-]{8}(?=\.[^/]+$)/, '');
+}
+
+/**
+ * Formats a size with its change, e.g. `2.10 kB (+120 B)`.
+ *
+ * @param size Current size.
+ * @param previous Previous size.
+ */
+function formatSizeDelta(size: number, previous?: number): string {
+    if (previous == null) {
+        return formatSize(size);
+    }
+    const delta = size - previous;
+    const percent = previous > 0 ? ` ${delta >= 0 ? '+' : ''}${(delta / previous * 100).toFixed(1)}%` : '';
+    return delta === 0 ? formatSize(size) : `${formatSize(size)} (${delta > 0 ? '+' : ''}${formatSize(delta)}${percent})`;
+}
+
+/**
+ * Renders the size report as a table of files followed by entries. With a previous report,
+ * sizes show their change, new and removed files are marked.
+ *
+ * @param report Size report.
+ * @param previous Previous size report to compare with.
+ */
+export function renderSizeReport(report: SizeReport, previous?: SizeReport): string {
+    const previousFiles = new Map(previous?.files.map(file => [getComparableName(file.file), file]) ?? []);
+    const previousEntries = new Map(previous?.entries.map(entry => [getComparableName(entry.file), entry]) ?? []);
+    const rows: string[][] = [['File', 'Raw', 'Minified', 'Gzip', 'Brotli']];
+
+    const addRow = (label: string, size: FileSize, before: FileSize | undefined) => {
+        const mark = previous != null && before == null ? ' (new)' : '';
+        rows.push([`${label}${mark}`, ...SIZE_METRICS.map(metric => formatSizeDelta(size[metric], before?.[metric]))]);
+    };
+
+    for (const file of report.files) {
+        addRow(file.file, file, previousFiles.get(getComparableName(file.file)));
+        previousFiles.delete(getComparableName(file.file));
+    }
+    for (const file of previousFiles.values()) {
+        rows.push([`${file.file} (removed)`, ...SIZE_METRICS.map(metric => formatSizeDelta(0, file[metric]))]);
+    }
+    for (const entry of report.entries.filter(entry => entry.files.length > 1)) {
+        addRow(`${entry.file} with imports`, entry, previousEntries.get(getComparableName(entry.file)));
+    }
+
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    return rows.map(row => row.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join('  ')).join('\n');
+}
+
+/**
+ * Checks the entries against size budgets. A budget key is an entry name, applied to the entry of every format,
+ * or an output file name. Budgets matching nothing are only warned about, e.g. an entry of a disabled format.
+ *
+ * @param report Size report.
+ * @param budgets Size limits.
+ * @returns Exceeded budget messages.
+ * @throws Error if a budget is invalid.
+ */
+export function checkSizeBudgets(report: SizeReport, budgets: SizeBudgets): string[] {
+    const messages: string[] = [];
+
+    for (const [key, budget] of Object.entries(budgets)) {
+        const limits = typeof budget === 'object' ? budget : {gzip: budget};
+        const entries = report.entries.filter(entry => entry.name === key || entry.file === key);
+        const sizes: { file: string, size: FileSize }[] = entries.length > 0
+            ? entries.map(entry => ({file: entry.file, size: entry}))
+            : report.files.filter(file => file.file === key).map(file => ({file: file.file, size: file}));
+        if (sizes.length === 0) {
+            console.warn(`Size budget "${key}" doesn't match any entry or output file`);
+        }
+        for (const {file, size} of sizes) {
+            for (const [metric, limit] of Object.entries(limits) as [SizeMetric, number | string][]) {
+                if (!SIZE_METRICS.includes(metric)) {
+                    throw new Error(`Invalid size budget "${key}": unknown size "${metric}", expected one of: ${SIZE_METRICS.join(', ')}`);
+                }
+                if (size[metric] > parseSize(limit)) {
+                    messages.push(`Size budget exceeded: ${file} ${metric} ${formatSize(size[metric])} > ${formatSize(parseSize(limit))}`);
+                }
+            }
+        }
+    }
+
+    return messages;
+}
+
+/**
+ * Lists modules contributing to each output file, largest first. Module ids are relative to the root directory.
+ *
+ * @param outputs Rollup write results.
+ * @param root Package directory.
+ */
+export function getBundleAnalysis(outputs: RollupOutput[], root: string): BundleAnalysis {
+    const chunks = outputs.flatMap(output => output.output.filter((item): item is OutputChunk => item.type === 'chunk'));
+
+    return {
+        files: chunks.map(chunk => {
+            const modules = Object.entries(chunk.modules)
+                .map(([id, module]) => ({
+                    // Virtual modules start with a zero byte
+                    id: id.startsWith('\0') ? id.substring(1) : path.relative(root, id).replace(/\\/g, '/'),
+                    size: module.renderedLength
+                }))
+                .filter(module => module.size > 0)
+                .sort((a, b) => b.size - a.size);
+            return {file: chunk.fileName, size: Buffer.byteLength(chunk.code), modules};
+        })
+    };
+}
+
+/**
+ * Renders the bundle analysis as a self-contained HTML treemap: output files split by module directories.
+ *
+ * @param analysis Bundle analysis.
+ */
+export function renderBundleAnalysisHtml(analysis: BundleAnalysis): string {
+    // `<` is escaped so module ids can't close the script element
+    const data = JSON.stringify(analysis).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Bundle analysis</title>
+<style>
+body { margin: 0; font: 12px sans-serif; }
+#map { position: absolute; inset: 0; }
+.node { position: absolute; box-sizing: border-box; overflow: hidden; border: 1px solid #fff; padding: 2px 4px; color: #222; }
+</style>
+</head>
+<body>
+<div id="map"></div>
+<script>
+const analysis = ${data};
+const format = size => size < 1000 ? size + ' B' : (size / 1000).toFixed(2) + ' kB';
+const tree = {name: '', size: 0, children: {}};
+for (const file of analysis.files) {
+    const fileNode = tree.children[file.file] = {name: file.file, size: 0, children: {}};
+    for (const module of file.modules) {
+        let node = fileNode;
+        for (const part of module.id.split('/')) {
+            node = node.children[part] ??= {name: part, size: 0, children: {}};
+            node.size += module.size;
+        }
+        fileNode.size += module.size;
+    }
+    tree.size += fileNode.size;
+}
+const map = document.getElementById('map');
+const layout = (node, x, y, width, height, depth, title) => {
+    const element = document.createElement('div');
+    element.className = 'node';
+    Object.assign(element.style, {left: x + 'px', top: y + 'px', width: width + 'px', height: height + 'px', background: 'hsl(' + (depth * 47 % 360) + ', 60%, ' + (85 - depth * 4) + '%)'});
+    element.title = title + ' ' + format(node.size);
+    element.textContent = width > 60 && height > 14 ? node.name + ' ' + format(node.size) : '';
+    map.appendChild(element);
+    const children = Object.values(node.children).sort((a, b) => b.size - a.size);
+    const header = node.name ? 16 : 0;
+    let offset = 0;
+    for (const child of children) {
+        const ratio = child.size / node.size;
+        if (depth % 2 === 0) {
+            layout(child, x + offset, y + header, width * ratio, height - header, depth + 1, title + '/' + child.name);
+            offset += width * ratio;
+        } else {
+            layout(child, x, y + header + offset, width, (height - header) * ratio, depth + 1, title + '/' + child.name);
+            offset += (height - header) * ratio;
+        }
+    }
+};
+layout(tree, 0, 0, map.clientWidth, map.clientHeight, 0, '');
+</script>
+</body>
+</html>`;
+}
+
+/**
+ * Writes the bundle analysis as `bundle-analysis.json` and `bundle-analysis.html`.
+ *
+ * @param directory Target directory.
+ * @param analysis Bundle analysis.
+ * @returns Written file paths.
+ */
+export function writeBundleAnalysis(directory: string, analysis: BundleAnalysis): string[] {
+    const json = path.resolve(directory, 'bundle-analysis.json');
+    const html = path.resolve(directory, 'bundle-analysis.html');
+    fs.mkdirSync(directory, {recursive: true});
+    fs.writeFileSync(json, JSON.stringify(analysis, null, 2));
+    fs.writeFileSync(html, renderBundleAnalysisHtml(analysis));
+
+    return [json, html];
+}
+
+/**
+ * Reads a size report saved with `--size-report`.
+ *
+ * @param file Report file path.
+ * @throws Error if the file can't be read.
+ */
+export function readSizeReport(file: string): SizeReport {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (e: unknown) {
+        throw new Error(`Unable to read size report "${file}": ${(e as Error).message}`);
+    }
+}
+
+/**
+ * Prints the size report of a build, compared with the previous report if set, saves the report and the bundle analysis.
+ *
+ * @param outputs Rollup write results.
+ * @param env Environment variable
+ * @returns Size report, checked against size budgets once every output is written.
+ */
+export async function reportBundleSize(outputs: RollupOutput[], env: BundleOptions): Promise<SizeReport> {
+    const report = await getSizeReport(outputs, env.minify ?? false);
+    const previous = env.compare ? readSizeReport(path.resolve(env.compare)) : undefined;
+    console.log(renderSizeReport(report, previous));
+
+    if (env.sizeReport) {
+        fs.mkdirSync(path.dirname(path.resolve(env.sizeReport)), {recursive: true});
+        fs.writeFileSync(path.resolve(env.sizeReport), JSON.stringify(report, null, 2));
+        console.log(`Size report: ${env.sizeReport}`);
+    }
+    if (env.analyze) {
+        const files = writeBundleAnalysis(path.resolve(env.analyze), getBundleAnalysis(outputs, env.root ?? process.cwd()));
+        console.log(`Bundle analysis: ${files.join(', ')}`);
+    }
+
+    return report;
+}
\ No newline at end of file
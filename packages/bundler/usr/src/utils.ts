@@ -1,11 +1,15 @@
 import path from "path";
-import {InputOptions, ModuleFormat, OutputOptions, rollup} from "rollup";
+import {InputOptions, ModuleFormat, OutputOptions, Plugin, rollup, RollupOptions} from "rollup";
 import tsConfigPaths from "rollup-plugin-tsconfig-paths";
 import {nodeResolve} from "@rollup/plugin-node-resolve";
 import typescript from "@rollup/plugin-typescript";
 import dts from "rollup-plugin-dts";
 import terser from "@rollup/plugin-terser";
 import {resolvePath} from "@monk-js/utils";
+import {BundleEntries} from "@/entries";
+import {createAutoExternal, readPackageDependencies} from "@/externals";
+import {reportBundleSize, SizeBudgets, SizeReport} from "@/size";
+import {verifyOutputLoads} from "@/dual";
 
 /**
  * Bundler command environment
@@ -21,59 +25,178 @@ export type BundlerEnv = {
     module: string,
     minify: boolean,
     noJs: boolean,
-    noDts: boolean
+    noDts: boolean,
+    exports: boolean,
+    src: string,
+    autoExternal: boolean,
+    watch: boolean,
+    banner: string,
+    configFile: string,
+    analyze: string,
+    sizeReport: string,
+    compare: string,
+    dual: boolean,
+    writeExports: boolean
 }
 
 /**
- * Generates both ESM and CommonJS output formats, including minified versions
- * for a given module entry point.
+ * Build options: command environment and the values only a configuration file can provide
+ */
+export type BundleOptions = Omit<Partial<BundlerEnv>, 'external'> & {
+    /**
+     * `--external` comma list or `/regex/`, or a list of modules and patterns
+     */
+    external?: string | (string | RegExp)[],
+    /**
+     * Replacements of global expressions with code, e.g. `process.env.NODE_ENV`
+     */
+    define?: Record<string, string>,
+    /**
+     * Additional Rollup plugins, run after TypeScript
+     */
+    plugins?: Plugin[],
+    /**
+     * Size limits by entry name or output file name
+     */
+    budgets?: SizeBudgets
+}
+
+/**
+ * Output format with its file extension, e.g. `esm:mjs`
+ */
+export type OutputFormat = {
+    format: ModuleFormat,
+    ext: string
+}
+
+/**
+ * Declaration file extensions by output extension, ES and CommonJS outputs of a dual package get their own declarations
+ */
+const DECLARATION_EXTENSIONS: Record<string, string> = {
+    mjs: 'd.mts',
+    cjs: 'd.cts'
+};
+
+/**
+ * Parses output formats, the extension defaults to the format name.
+ *
+ * @param formats Comma separated formats with extensions, e.g. `es:js,esm:mjs,cjs`.
+ */
+export function parseFormats(formats: string): OutputFormat[] {
+    return formats.split(',').map(item => {
+        const [format, ext] = item.split(':');
+        return {format: format as ModuleFormat, ext: ext ?? format};
+    });
+}
+
+/**
+ * Gets the output formats, dual packages are built as `.mjs` and `.cjs` by default.
  *
- * @param entry The path to the entry file to be bundled.
- * @param buildDir The directory where the output files will be generated.
- * @param basePath The base path to resolve file paths relative to.
  * @param env Environment variable
  */
-export async function buildJs(entry: string, buildDir: string, basePath: string, env: Partial<BundlerEnv> = {}): Promise<void> {
-    const sourceMap = env.sourceMap ?? false;
-    const formats = env.formats ?? 'es:js,esm:mjs,cjs';
-    const tsconfig = typeof env.config === 'string' ? resolvePath(path.resolve(env.config), basePath) : env.config ?? false;
+export function getFormats(env: BundleOptions): string {
+    return env.formats ?? (env.dual ? 'esm:mjs,cjs' : 'es:js,esm:mjs,cjs');
+}
+
+/**
+ * Gets the declaration file extension matching an output extension, e.g. `d.cts` for `cjs`.
+ *
+ * @param ext Output extension.
+ */
+export function getDeclarationExtension(ext: string): string {
+    return DECLARATION_EXTENSIONS[ext] ?? 'd.ts';
+}
+
+/**
+ * Computes Rollup externals: the `--external` comma list or `/regex/`, plus either everything in `node_modules`
+ * or, in auto mode, the package.json dependencies of the package in the root directory.
+ *
+ * @param env Environment variable
+ */
+function getExternal(env: BundleOptions): InputOptions['external'] {
     const external: (string | RegExp)[] = typeof env.external === 'string'
         ? env.external.startsWith('/') && env.external.endsWith('/')
             ? [new RegExp(env.external.substring(1, env.external.lastIndexOf('/')), env.external.substring(env.external.lastIndexOf('/') + 1))]
             : env.external.split(',')
-        : [];
-    external.push(/node_modules/);
+        : [...env.external ?? []];
 
-    const input: InputOptions = {
-        input: resolvePath(path.resolve(entry), basePath),
-        external
+    if (env.autoExternal) {
+        return createAutoExternal(readPackageDependencies(env.root ?? process.cwd()), external);
     }
 
+    external.push(/node_modules/);
+    return external;
+}
+
+/**
+ * Creates a plugin replacing global expressions, e.g. `process.env.NODE_ENV`, with code.
+ * Property accesses like `env.process.env.NODE_ENV` and longer identifiers are not replaced.
+ *
+ * @param define Replacements by expression.
+ */
+function definePlugin(define: Record<string, string>): Plugin {
+    const keys = Object.keys(define).sort((a, b) => b.length - a.length);
+    const pattern = new RegExp(`(?<![\\w$.])(${keys.map(key => key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(?![\\w$])`, 'g');
+
+    return {
+        name: 'monk-define',
+        transform(code) {
+            if (keys.length === 0 || !pattern.test(code)) {
+                return null;
+            }
+            pattern.lastIndex = 0;
+            return {code: code.replace(pattern, key => define[key]), map: null};
+        }
+    };
+}
+
+/**
+ * Resolves bundle entries. A single entry file is named after the file, or the `module` option.
+ *
+ * @param entry The path to the entry file, or entries by output module name.
+ * @param basePath The base path to resolve file paths relative to.
+ * @param moduleName Output module name of a single entry.
+ */
+export function resolveEntries(entry: string | BundleEntries, basePath: string, moduleName?: string): BundleEntries {
+    if (typeof entry !== 'string') {
+        return Object.fromEntries(Object.entries(entry).map(([name, file]) => [name, resolvePath(path.resolve(file), basePath)]));
+    }
     const fileName = path.basename(entry);
     const extName = path.extname(fileName);
-    const moduleName = env.module ?? fileName.substring(0, fileName.length - extName.length);
 
-    console.log(`Building JS for entry: ${resolvePath(path.resolve(entry), basePath)}. Starting...`);
-    const jobs: Promise<unknown>[] = [];
+    return {[moduleName ?? fileName.substring(0, fileName.length - extName.length)]: resolvePath(path.resolve(entry), basePath)};
+}
 
-    const bundle = await rollup({
-        ...input,
-        plugins: [tsConfigPaths(), nodeResolve({preferBuiltins: true}), typescript({
-            tsconfig,
-            sourceMap
-        })],
-    });
+/**
+ * Creates Rollup options generating both ESM and CommonJS output formats, including minified versions
+ * for the given module entry points. Modules shared by several entries are split into chunks.
+ *
+ * @param entry The path to the entry file to be bundled, or entries by output module name.
+ * @param buildDir The directory where the output files will be generated.
+ * @param basePath The base path to resolve file paths relative to.
+ * @param env Environment variable
+ */
+export function getJsBuildOptions(entry: string | BundleEntries, buildDir: string, basePath: string, env: BundleOptions = {}): RollupOptions & { output: OutputOptions[] } {
+    const sourceMap = env.sourceMap ?? false;
+    const formats = getFormats(env);
+    const tsconfig = typeof env.config === 'string' ? resolvePath(path.resolve(env.config), basePath) : env.config ?? false;
+    const external = getExternal(env);
 
-    for (const _ of formats.split(',')) {
-        // eslint-disable-next-line prefer-const
-        let [format, ext] = _.split(':');
-        ext ??= format;
+    const input: InputOptions = {
+        input: resolveEntries(entry, basePath, env.module),
+        external
+    }
 
+    const outputs: OutputOptions[] = [];
+    for (const {format, ext} of parseFormats(formats)) {
         const output: OutputOptions = {
-            file: resolvePath(path.resolve(buildDir, `${moduleName}.${ext}`), basePath),
-            format: format as ModuleFormat,
+            dir: resolvePath(path.resolve(buildDir), basePath),
+            entryFileNames: `[name].${ext}`,
+            chunkFileNames: `chunks/[name]-[hash].${ext}`,
+            format,
             exports: "named",
             sourcemap: sourceMap,
+            banner: env.banner
         }
 
         const outputMin: OutputOptions = {
@@ -81,57 +204,104 @@ export async function buildJs(entry: string, buildDir: string, basePath: string,
             plugins: [terser()]
         }
 
-        jobs.push(!env.minify ? bundle.write(output) : bundle.write(outputMin));
+        outputs.push(!env.minify ? output : outputMin);
     }
 
-    await Promise.all(jobs);
+    return {
+        ...input,
+        plugins: [tsConfigPaths(), nodeResolve({preferBuiltins: true}), typescript({
+            tsconfig,
+            sourceMap
+        }), definePlugin(env.define ?? {}), ...env.plugins ?? []],
+        output: outputs
+    };
+}
+
+/**
+ * Generates both ESM and CommonJS output formats, including minified versions
+ * for the given module entry points. Modules shared by several entries are split into chunks.
+ *
+ * @param entry The path to the entry file to be bundled, or entries by output module name.
+ * @param buildDir The directory where the output files will be generated.
+ * @param basePath The base path to resolve file paths relative to.
+ * @param env Environment variable
+ * @returns Size report of the written files.
+ */
+export async function buildJs(entry: string | BundleEntries, buildDir: string, basePath: string, env: BundleOptions = {}): Promise<SizeReport> {
+    const {output, ...options} = getJsBuildOptions(entry, buildDir, basePath, env);
+
+    console.log(`Building JS for entry: ${Object.values(options.input).join(', ')}. Starting...`);
+
+    const bundle = await rollup(options);
+    const results = await Promise.all(output.map(item => bundle.write(item)));
     await bundle.close();
 
     console.log(`Build successful!`);
+
+    if (env.dual) {
+        // Consumers get `ERR_REQUIRE_ESM` or broken named exports if a format doesn't load as the package type implies
+        const errors = await verifyOutputLoads(results, output, env.root ?? process.cwd());
+        if (errors.length > 0) {
+            throw new Error(`Outputs don't load the same with import and require:\n  ${errors.join('\n  ')}`);
+        }
+        console.log(`Outputs load with import and require.`);
+    }
+
+    return reportBundleSize(results, env);
 }
 
 /**
- * Generates TypeScript declaration files (.d.ts) for a given module entry point.
+ * Creates Rollup options generating TypeScript declaration files (.d.ts) for the given module entry points.
+ * Dual packages get declarations matching each output format: `.d.mts` for `.mjs` and `.d.cts` for `.cjs` files.
  *
- * @param entry The path to the entry file to be bundled.
+ * @param entry The path to the entry file to be bundled, or entries by output module name.
  * @param buildDir The directory where the output files will be generated.
  * @param basePath The base path to resolve file paths relative to.
  * @param env Environment variable
  */
-export async function buildDts(entry: string, buildDir: string, basePath: string, env: Partial<BundlerEnv> = {}): Promise<void> {
+export function getDtsBuildOptions(entry: string | BundleEntries, buildDir: string, basePath: string, env: BundleOptions = {}): RollupOptions & { output: OutputOptions[] } {
     const tsconfig = typeof env.config === 'string' ? resolvePath(path.resolve(env.config), basePath) : env.config ?? false;
-    const external: (string | RegExp)[] = typeof env.external === 'string'
-        ? env.external.startsWith('/') && env.external.endsWith('/')
-            ? [new RegExp(env.external.substring(1, env.external.lastIndexOf('/')), env.external.substring(env.external.lastIndexOf('/') + 1))]
-            : env.external.split(',')
-        : [];
-    external.push(/node_modules/);
+    const external = getExternal(env);
 
     const input: InputOptions = {
-        input: resolvePath(path.resolve(entry), basePath),
+        input: resolveEntries(entry, basePath, env.module),
         external
     }
 
-    const fileName = path.basename(entry);
-    const extName = path.extname(fileName);
-    const moduleName = fileName.substring(0, fileName.length - extName.length);
-
-    console.log(`Building .d.ts for entry: ${resolvePath(path.resolve(entry), basePath)}. Starting...`);
-
-    const dtsOutput: OutputOptions = {
-        file: resolvePath(path.resolve(buildDir, `${moduleName}.d.ts`), basePath),
+    const extensions = env.dual ? [...new Set(parseFormats(getFormats(env)).map(({ext}) => getDeclarationExtension(ext)))] : ['d.ts'];
+    const dtsOutputs: OutputOptions[] = extensions.map(ext => ({
+        dir: resolvePath(path.resolve(buildDir), basePath),
+        entryFileNames: `[name].${ext}`,
+        chunkFileNames: `chunks/[name]-[hash].${ext}`,
         format: 'es',
         sourcemap: false
-    }
+    }));
 
-    const dtsBundle = await rollup({
+    return {
         ...input,
         plugins: [tsConfigPaths(), nodeResolve({preferBuiltins: true}), typescript({
             tsconfig,
             sourceMap: false,
         }), dts()],
-    });
-    await dtsBundle.write(dtsOutput);
+        output: dtsOutputs
+    };
+}
+
+/**
+ * Generates TypeScript declaration files (.d.ts) for the given module entry points.
+ *
+ * @param entry The path to the entry file to be bundled, or entries by output module name.
+ * @param buildDir The directory where the output files will be generated.
+ * @param basePath The base path to resolve file paths relative to.
+ * @param env Environment variable
+ */
+export async function buildDts(entry: string | BundleEntries, buildDir: string, basePath: string, env: BundleOptions = {}): Promise<void> {
+    const {output, ...options} = getDtsBuildOptions(entry, buildDir, basePath, env);
+
+    console.log(`Building .d.ts for entry: ${Object.values(options.input).join(', ')}. Starting...`);
+
+    const dtsBundle = await rollup(options);
+    await Promise.all(output.map(item => dtsBundle.write(item)));
     await dtsBundle.close();
 
     console.log(`Build successful!`);
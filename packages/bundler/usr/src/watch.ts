@@ -0,0 +1,184 @@
+import path from "path";
+import fs from "fs";
+import ts from "typescript";
+import {Plugin, rollup, RollupCache, RollupError, RollupLog, RollupOutput, RollupWatcher, watch} from "rollup";
+import {BundleEntries} from "@/entries";
+import {BundleOptions, getDtsBuildOptions, getJsBuildOptions} from "@/utils";
+import {checkSizeBudgets, reportBundleSize} from "@/size";
+
+/**
+ * Bundle watcher
+ */
+export type BundleWatcher = {
+    /**
+     * Stops watching
+     */
+    close: () => Promise<void>
+}
+
+/**
+ * TypeScript source file extensions, declaration files are always type-affecting
+ */
+const TS_SOURCE_PATTERN = /(?<!\.d)\.[cm]?tsx?$/;
+
+/**
+ * Formats a Rollup error or warning as a single line, e.g. `src/index.ts:3:7 Unexpected token`.
+ *
+ * @param log Rollup error or warning.
+ */
+export function formatRollupLog(log: RollupLog | RollupError): string {
+    const message = log.message.split('\n')[0];
+    const file = log.loc?.file ?? log.id;
+    // Plugin messages usually start with the location already
+    if (!file || message.includes(path.relative(process.cwd(), file))) {
+        return message;
+    }
+    return `${path.relative(process.cwd(), file)}${log.loc ? `:${log.loc.line}:${log.loc.column}` : ''} ${message}`;
+}
+
+/**
+ * Creates a tracker telling whether a file change affects declarations. A TypeScript file affects them
+ * if its isolated declaration output changes; when it can't be computed without type inference, the change counts.
+ *
+ * @returns Function checking a changed file, its declaration output is remembered for the next check.
+ */
+export function createDeclarationTracker(): (file: string) => boolean {
+    const declarations = new Map<string, string | null>();
+
+    const getDeclaration = (file: string): string | null => {
+        if (!fs.existsSync(file)) {
+            return null;
+        }
+        const {outputText, diagnostics} = ts.transpileDeclaration(fs.readFileSync(file, 'utf-8'), {fileName: file, compilerOptions: {}});
+        return diagnostics?.length > 0 ? null : outputText;
+    };
+
+    return (file: string) => {
+        if (!TS_SOURCE_PATTERN.test(file)) {
+            return true;
+        }
+        const previous = declarations.get(file);
+        const current = getDeclaration(file);
+        declarations.set(file, current);
+        return previous == null || current == null || previous !== current;
+    };
+}
+
+/**
+ * Watches sources and rebuilds JS incrementally on change. Declarations are regenerated
+ * only when a type-affecting file changes. Every JS build prints its size summary, build errors
+ * and exceeded size budgets are printed and the watcher keeps running.
+ *
+ * @param entry The path to the entry file to be bundled, or entries by output module name.
+ * @param buildDir The directory where the output files will be generated.
+ * @param basePath The base path to resolve file paths relative to.
+ * @param env Environment variable
+ */
+export function watchBuild(entry: string | BundleEntries, buildDir: string, basePath: string, env: BundleOptions = {}): BundleWatcher {
+    const jsOptions = getJsBuildOptions(entry, buildDir, basePath, env);
+    const dtsOptions = getDtsBuildOptions(entry, buildDir, basePath, env);
+    const isTypeChange = createDeclarationTracker();
+    const tracked = new Set<string>();
+    const onLog = (level: string, log: RollupLog) => {
+        if (level === 'warn') {
+            console.warn(`Warning: ${formatRollupLog(log)}`);
+        }
+    };
+
+    let dtsCache: RollupCache | undefined;
+    let dtsPending = !env.noDts;
+    let failed = false;
+    // Size reports and declaration builds run one at a time, after the JS build they follow
+    let queue: Promise<void> = Promise.resolve();
+    // Files written by the current JS build
+    let written: RollupOutput[] = [];
+    const sizePlugin: Plugin = {
+        name: 'monk-size-report',
+        writeBundle(_, bundle) {
+            written.push({output: Object.values(bundle)} as RollupOutput);
+        }
+    };
+
+    const reportSize = async (outputs: RollupOutput[]) => {
+        try {
+            const report = await reportBundleSize(outputs, env);
+            checkSizeBudgets(report, env.budgets ?? {}).forEach(message => console.error(message));
+        } catch (e: unknown) {
+            console.error((e as Error).message);
+        }
+    };
+
+    const buildDeclarations = async () => {
+        const started = Date.now();
+        try {
+            const bundle = await rollup({...dtsOptions, cache: dtsCache, onLog});
+            dtsCache = bundle.cache;
+            await Promise.all(dtsOptions.output.map(item => bundle.write(item)));
+            await bundle.close();
+            console.log(`Declarations built in ${Date.now() - started}ms`);
+        } catch (e: unknown) {
+            console.error(`Declarations failed: ${formatRollupLog(e as RollupError)}`);
+        }
+    };
+
+    const watcher: RollupWatcher = watch({
+        ...jsOptions,
+        plugins: [jsOptions.plugins, sizePlugin],
+        onLog,
+        watch: {
+            clearScreen: false,
+            // Without JS output the watcher only tracks changes for declarations
+            skipWrite: !!env.noJs
+        }
+    });
+
+    watcher.on('change', (id) => {
+        tracked.add(id);
+        if (!env.noDts && isTypeChange(id)) {
+            dtsPending = true;
+        }
+    });
+
+    watcher.on('event', (event) => {
+        switch (event.code) {
+            case 'START':
+                failed = false;
+                written = [];
+                break;
+            case 'BUNDLE_END':
+                // Remember declarations of the source files seen for the first time
+                for (const file of event.result.watchFiles.filter(file => !tracked.has(file) && !file.includes('node_modules'))) {
+                    tracked.add(file);
+                    isTypeChange(file);
+                }
+                event.result.close();
+                if (!env.noJs) {
+                    console.log(`Built ${Object.keys(jsOptions.input).join(', ')} in ${event.duration}ms`);
+                    const outputs = written;
+                    queue = queue.then(() => reportSize(outputs));
+                }
+                break;
+            case 'ERROR':
+                event.result?.close();
+                failed = true;
+                console.error(`Build failed: ${formatRollupLog(event.error)}`);
+                break;
+            case 'END':
+                // Declarations of a broken build are postponed until it's fixed
+                if (dtsPending && !failed) {
+                    dtsPending = false;
+                    queue = queue.then(buildDeclarations).then(() => console.log(`Watching for changes...`));
+                } else {
+                    queue = queue.then(() => console.log(`Watching for changes...`));
+                }
+                break;
+        }
+    });
+
+    return {
+        async close() {
+            await watcher.close();
+            await queue;
+        }
+    };
+}
\ No newline at end of file
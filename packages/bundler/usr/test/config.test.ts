@@ -0,0 +1,87 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {getConfigOptions, loadConfigFile, mergeConfig, resolveConfig, resolveConfigEntry} from "@/config";
+
+describe('bundler config', () => {
+    let root: string;
+
+    const write = (file: string, content: string) => {
+        fs.mkdirSync(path.dirname(path.resolve(root, file)), {recursive: true});
+        fs.writeFileSync(path.resolve(root, file), content);
+    };
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-bundle-config-'));
+        write('monk.config.json', JSON.stringify({dist: './lib', formats: ['es:js', 'cjs'], define: {DEBUG: 'false', MODE: '"root"'}, budgets: {index: '10 kB'}}));
+        write('packages/a/monk.config.ts', [
+            'const define: Record<string, string> = {MODE: \'"a"\'};',
+            'export default {minify: true, define, budgets: {cli: \'1 kB\'}};'
+        ].join('\n'));
+        write('packages/b/monk.config.mjs', 'export default {extends: false, dist: "./out"};');
+        write('packages/c/src/index.ts', '');
+        write('packages/d/monk.config.mjs', 'export default [];');
+        write('workspace/package.json', JSON.stringify({workspaces: ['packages/*']}));
+        write('workspace/packages/e/src/index.ts', '');
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('loads TypeScript configuration without leaving compiled files', async () => {
+        assert.deepEqual(await loadConfigFile(path.resolve(root, 'packages/a/monk.config.ts')), {minify: true, define: {MODE: '"a"'}, budgets: {cli: '1 kB'}});
+        assert.deepEqual(fs.readdirSync(path.resolve(root, 'packages/a')), ['monk.config.ts']);
+    });
+
+    it('loads the same TypeScript configuration concurrently', async () => {
+        const file = path.resolve(root, 'packages/a/monk.config.ts');
+        const configs = await Promise.all([loadConfigFile(file), loadConfigFile(file), loadConfigFile(file)]);
+        assert.deepEqual(configs.map(config => config.minify), [true, true, true]);
+        assert.deepEqual(fs.readdirSync(path.resolve(root, 'packages/a')), ['monk.config.ts']);
+    });
+
+    it('rejects configuration without an object export', async () => {
+        await assert.rejects(loadConfigFile(path.resolve(root, 'packages/d/monk.config.mjs')), /Expected an object as the default export/);
+    });
+
+    it('inherits the nearest parent configuration', async () => {
+        assert.deepEqual(await resolveConfig(path.resolve(root, 'packages/a')), {
+            dist: './lib',
+            formats: ['es:js', 'cjs'],
+            minify: true,
+            define: {DEBUG: 'false', MODE: '"a"'},
+            budgets: {index: '10 kB', cli: '1 kB'},
+            plugins: undefined
+        });
+        assert.equal((await resolveConfig(path.resolve(root, 'packages/c'))).dist, './lib');
+    });
+
+    it('stops the lookup at the workspace root', async () => {
+        assert.deepEqual(await resolveConfig(path.resolve(root, 'workspace/packages/e')), {});
+    });
+
+    it('does not inherit with extends: false or an explicit file', async () => {
+        assert.deepEqual(await resolveConfig(path.resolve(root, 'packages/b')), {extends: false, dist: './out'});
+        assert.deepEqual(await resolveConfig(path.resolve(root, 'packages/c'), '../a/monk.config.ts'), {minify: true, define: {MODE: '"a"'}, budgets: {cli: '1 kB'}});
+    });
+
+    it('merges budgets and appends plugins', () => {
+        const first = {name: 'first'};
+        const second = {name: 'second'};
+
+        assert.deepEqual(mergeConfig({plugins: [first]}, {plugins: [second]}).plugins, [first, second]);
+        assert.deepEqual(mergeConfig({budgets: {index: 100}}, {budgets: {index: 200}}).budgets, {index: 200});
+    });
+
+    it('resolves entries and options', () => {
+        assert.equal(resolveConfigEntry('src/index.ts', root), path.resolve(root, 'src/index.ts'));
+        assert.deepEqual(resolveConfigEntry(['src/index.ts', 'cli=src/main.ts'], root), {
+            index: path.resolve(root, 'src/index.ts'),
+            cli: path.resolve(root, 'src/main.ts')
+        });
+        assert.deepEqual(getConfigOptions({entry: 'src/index.ts', formats: ['es:js', 'cjs'], extends: true, minify: true}), {formats: 'es:js,cjs', minify: true});
+    });
+});
\ No newline at end of file
@@ -0,0 +1,78 @@
+import {after, before, describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {OutputOptions, RollupOutput} from "rollup";
+import {checkDualExports, getDualExports, verifyOutputLoads} from "@/dual";
+import {getDeclarationExtension, getFormats, parseFormats} from "@/utils";
+
+describe('dual formats', () => {
+    it('builds .mjs and .cjs outputs by default', () => {
+        assert.equal(getFormats({dual: true}), 'esm:mjs,cjs');
+        assert.equal(getFormats({dual: true, formats: 'es:js'}), 'es:js');
+        assert.deepEqual(parseFormats('esm:mjs,cjs'), [{format: 'esm', ext: 'mjs'}, {format: 'cjs', ext: 'cjs'}]);
+        assert.equal(getDeclarationExtension('cjs'), 'd.cts');
+        assert.equal(getDeclarationExtension('js'), 'd.ts');
+    });
+
+    it('maps entries to import and require conditions', () => {
+        assert.deepEqual(getDualExports(['index', 'cli'], '/w/pkg/dist', '/w/pkg'), {
+            '.': {
+                import: {types: './dist/index.d.mts', default: './dist/index.mjs'},
+                require: {types: './dist/index.d.cts', default: './dist/index.cjs'}
+            },
+            './cli': {
+                import: {types: './dist/cli.d.mts', default: './dist/cli.mjs'},
+                require: {types: './dist/cli.d.cts', default: './dist/cli.cjs'}
+            }
+        });
+        assert.deepEqual(getDualExports(['index'], '/w/pkg/lib', '/w/pkg', {formats: 'es:js,esm:mjs,cjs', noDts: true}), {
+            '.': {import: {default: './lib/index.js'}, require: {default: './lib/index.cjs'}}
+        });
+    });
+});
+
+describe('dual outputs', () => {
+    let root: string;
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-bundle-dual-'));
+        fs.mkdirSync(path.resolve(root, 'dist'));
+        fs.writeFileSync(path.resolve(root, 'dist/index.mjs'), 'export const a = 1;\nexport const b = 2;\n');
+        fs.writeFileSync(path.resolve(root, 'dist/index.cjs'), 'exports.a = 1;\n');
+        fs.writeFileSync(path.resolve(root, 'dist/cli.cjs'), 'process.exit(1);\n');
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'warn', () => undefined);
+    });
+
+    after(() => {
+        mock.restoreAll();
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('reports outputs that do not export the same', async () => {
+        fs.writeFileSync(path.resolve(root, 'package.json'), JSON.stringify({bin: './dist/cli.cjs'}));
+        const chunk = (fileName: string) => ({type: 'chunk', fileName, name: path.basename(fileName, path.extname(fileName)), isEntry: true});
+        const outputs = [{output: [chunk('index.mjs')]}, {output: [chunk('index.cjs'), chunk('cli.cjs')]}] as unknown as RollupOutput[];
+        const options: OutputOptions[] = [{format: 'esm', dir: path.resolve(root, 'dist')}, {format: 'cjs', dir: path.resolve(root, 'dist')}];
+
+        assert.deepEqual(await verifyOutputLoads(outputs, options, root), [
+            `${path.join('dist', 'index.cjs')} (require): exports a, ${path.join('dist', 'index.mjs')} exports a, b`
+        ]);
+    });
+
+    it('writes the exports map keeping the package.json formatting', () => {
+        const file = path.resolve(root, 'package.json');
+        fs.writeFileSync(file, '{\r\n\t"name": "pkg"\r\n}\r\n');
+
+        checkDualExports(['index'], path.resolve(root, 'dist'), root, {noDts: true});
+        assert.equal(fs.readFileSync(file, 'utf-8'), '{\r\n\t"name": "pkg"\r\n}\r\n');
+
+        checkDualExports(['index'], path.resolve(root, 'dist'), root, {noDts: true, writeExports: true});
+        const packageInfo = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        assert.deepEqual(packageInfo.exports, {'.': {import: {default: './dist/index.mjs'}, require: {default: './dist/index.cjs'}}});
+        assert.match(fs.readFileSync(file, 'utf-8'), /^\{\r\n\t"name": "pkg",\r\n\t"exports": \{\r\n\t\t"\.": \{/);
+        assert.ok(fs.readFileSync(file, 'utf-8').endsWith('\r\n\t}\r\n}\r\n'));
+    });
+});
\ No newline at end of file
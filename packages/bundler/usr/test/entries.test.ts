@@ -0,0 +1,93 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {getExportedPaths, getExportsBuild, getMissingExports, parseEntries} from "@/entries";
+
+describe('parseEntries', () => {
+    it('names entries by file name or explicit name', () => {
+        assert.deepEqual(parseEntries(['src/index.ts,cli=src/bin/main.ts', ' src/utils.ts ']), {
+            index: 'src/index.ts',
+            cli: 'src/bin/main.ts',
+            utils: 'src/utils.ts'
+        });
+    });
+
+    it('rejects duplicate names', () => {
+        assert.throws(() => parseEntries(['src/index.ts', 'lib/index.ts']), /Duplicate entry name "index": src\/index.ts, lib\/index.ts/);
+    });
+});
+
+describe('package exports', () => {
+    let root: string;
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-bundle-entries-'));
+        for (const file of ['src/index.ts', 'src/cli.ts', 'src/utils/index.mts', 'package.json']) {
+            fs.mkdirSync(path.dirname(path.resolve(root, file)), {recursive: true});
+            fs.writeFileSync(path.resolve(root, file), '');
+        }
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    const build = (packageInfo: object) => getExportsBuild(packageInfo, root, path.resolve(root, 'dist'), path.resolve(root, 'src'));
+
+    it('lists exported paths without patterns', () => {
+        assert.deepEqual(getExportedPaths({
+            main: './dist/index.js',
+            bin: {tool: './dist/cli.js'},
+            exports: {'.': {import: './dist/index.js', types: './dist/index.d.ts'}, './*': './dist/*.js'}
+        }).sort(), [path.normalize('dist/cli.js'), path.normalize('dist/index.d.ts'), path.normalize('dist/index.js')]);
+    });
+
+    it('infers entries and formats from the exported paths', () => {
+        assert.deepEqual(build({
+            type: 'module',
+            bin: './dist/cli.js',
+            exports: {
+                '.': {types: './dist/index.d.ts', import: './dist/index.js', require: './dist/index.cjs'},
+                './utils': './dist/utils/index.mjs',
+                './package.json': './package.json'
+            }
+        }), {
+            entries: {
+                index: path.resolve(root, 'src/index.ts'),
+                cli: path.resolve(root, 'src/cli.ts'),
+                'utils/index': path.resolve(root, 'src/utils/index.mts')
+            },
+            formats: 'es:js,cjs:cjs,esm:mjs',
+            dts: true,
+            dual: false
+        });
+        assert.equal(build({main: './dist/index.js'}).formats, 'cjs:js');
+        assert.equal(build({exports: {import: {types: './dist/index.d.mts', default: './dist/index.mjs'}}}).dual, true);
+    });
+
+    it('reports invalid exports', () => {
+        assert.throws(() => build({
+            main: './lib/index.js',
+            module: './dist/missing.mjs',
+            types: './dist/index.json'
+        }), (error: Error) => {
+            assert.match(error.message, /lib\/index\.js is outside of the output directory dist and doesn't exist/);
+            assert.match(error.message, /dist\/missing\.mjs has no source file src\/missing\{\.ts,/);
+            assert.match(error.message, /dist\/index\.json has unsupported extension "\.json"/);
+            return true;
+        });
+    });
+
+    it('lists missing exported files', () => {
+        assert.deepEqual(getMissingExports({main: './dist/index.js', exports: {'./package.json': './package.json'}}, root), [path.normalize('dist/index.js')]);
+    });
+
+    it('skips missing files of kinds that were not built', () => {
+        const packageInfo = {main: './dist/index.js', types: './dist/index.d.ts', exports: {'./package.json': './package.json'}};
+        assert.deepEqual(getMissingExports(packageInfo, root), [path.normalize('dist/index.js'), path.normalize('dist/index.d.ts')]);
+        assert.deepEqual(getMissingExports(packageInfo, root, {js: false}), [path.normalize('dist/index.d.ts')]);
+        assert.deepEqual(getMissingExports(packageInfo, root, {dts: false}), [path.normalize('dist/index.js')]);
+    });
+});
\ No newline at end of file
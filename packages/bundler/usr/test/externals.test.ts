@@ -0,0 +1,60 @@
+import {describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {createAutoExternal, getPackageName} from "@/externals";
+
+describe('getPackageName', () => {
+    it('returns the package of bare specifiers', () => {
+        assert.equal(getPackageName('rollup'), 'rollup');
+        assert.equal(getPackageName('rollup/parseAst'), 'rollup');
+        assert.equal(getPackageName('@scope/pkg/sub/path'), '@scope/pkg');
+    });
+
+    it('ignores relative, absolute, aliased and virtual imports', () => {
+        assert.equal(getPackageName('./utils'), null);
+        assert.equal(getPackageName('/usr/lib/a.js'), null);
+        assert.equal(getPackageName('@/utils'), null);
+        assert.equal(getPackageName('#/gen'), null);
+        assert.equal(getPackageName('\0virtual'), null);
+    });
+});
+
+describe('createAutoExternal', () => {
+    const packageInfo = {
+        name: '@scope/self',
+        dependencies: {rollup: '^4.0.0'},
+        peerDependencies: {typescript: '*'},
+        optionalDependencies: {fsevents: '*'},
+        devDependencies: {tslib: '*'}
+    };
+
+    it('keeps builtins and declared dependencies external and bundles dev dependencies', () => {
+        const external = createAutoExternal(packageInfo, [], () => assert.fail('unexpected warning'));
+
+        assert.equal(external('node:fs', '/src/a.ts', false), true);
+        assert.equal(external('path', '/src/a.ts', false), true);
+        assert.equal(external('rollup/parseAst', '/src/a.ts', false), true);
+        assert.equal(external('typescript', '/src/a.ts', false), true);
+        assert.equal(external('fsevents', '/src/a.ts', false), true);
+        assert.equal(external('@scope/self/package.json', '/src/a.ts', false), true);
+        assert.equal(external('tslib', '/src/a.ts', false), false);
+        assert.equal(external('./b', '/src/a.ts', false), false);
+        assert.equal(external('/node_modules/rollup/dist/index.js', '/src/a.ts', true), false);
+    });
+
+    it('applies extra externals first', () => {
+        const external = createAutoExternal(packageInfo, ['tslib', /^@other\//]);
+
+        assert.equal(external('tslib', undefined, false), true);
+        assert.equal(external('@other/pkg', undefined, false), true);
+    });
+
+    it('reports undeclared packages once, except imports from bundled code', () => {
+        const warnings: string[] = [];
+        const external = createAutoExternal(packageInfo, [], (name, importer) => warnings.push(`${name} ${importer}`));
+
+        assert.equal(external('lodash', '/src/a.ts', false), true);
+        assert.equal(external('lodash/merge', '/src/b.ts', false), true);
+        assert.equal(external('chalk', '/w/node_modules/tslib/index.js', false), false);
+        assert.deepEqual(warnings, ['lodash /src/a.ts']);
+    });
+});
\ No newline at end of file
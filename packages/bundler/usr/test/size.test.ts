@@ -0,0 +1,96 @@
+import {describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import {RollupOutput} from "rollup";
+import {checkSizeBudgets, formatSize, getSizeReport, parseSize, renderSizeReport, SizeReport} from "@/size";
+
+const size = (bytes: number) => ({raw: bytes * 4, minified: bytes * 2, gzip: bytes, brotli: bytes - 10});
+
+const report: SizeReport = {
+    files: [
+        {file: 'index.js', entry: 'index', ...size(1500)},
+        {file: 'index.cjs', entry: 'index', ...size(1600)},
+        {file: 'chunks/shared-a1b2c3d4.js', entry: null, ...size(500)}
+    ],
+    entries: [
+        {name: 'index', file: 'index.js', files: ['index.js', 'chunks/shared-a1b2c3d4.js'], ...size(2000)},
+        {name: 'index', file: 'index.cjs', files: ['index.cjs'], ...size(1600)}
+    ]
+};
+
+describe('sizes', () => {
+    it('parses and formats sizes', () => {
+        assert.equal(parseSize(100), 100);
+        assert.equal(parseSize('2 kB'), 2000);
+        assert.equal(parseSize('1.5KiB'), 1536);
+        assert.equal(parseSize('300'), 300);
+        assert.throws(() => parseSize('10 parsecs'), /Invalid size "10 parsecs"/);
+        assert.equal(formatSize(512), '512 B');
+        assert.equal(formatSize(12340), '12.34 kB');
+        assert.equal(formatSize(2500000), '2.50 MB');
+    });
+
+    it('measures entries with their imported chunks', async () => {
+        const chunk = (fileName: string, code: string, isEntry: boolean, imports: string[] = []) =>
+            ({type: 'chunk', fileName, name: fileName.replace(/\.js$/, ''), code, isEntry, imports});
+        const outputs = [{output: [
+            chunk('index.js', 'import "./shared.js";\nexport const a = 1;\n', true, ['shared.js']),
+            chunk('shared.js', 'export const shared = "shared";\n', false),
+            {type: 'asset', fileName: 'index.js.map', source: '{}'}
+        ]}] as unknown as RollupOutput[];
+
+        const {files, entries} = await getSizeReport(outputs, false);
+
+        assert.deepEqual(files.map(file => [file.file, file.entry]), [['index.js', 'index'], ['shared.js', null]]);
+        assert.equal(files[0].raw, 42);
+        assert.ok(files[0].minified < files[0].raw);
+        assert.deepEqual(entries.map(entry => [entry.name, entry.files]), [['index', ['index.js', 'shared.js']]]);
+        assert.equal(entries[0].raw, files[0].raw + files[1].raw);
+    });
+});
+
+describe('checkSizeBudgets', () => {
+    it('checks entry budgets of every format, gzip by default', () => {
+        assert.deepEqual(checkSizeBudgets(report, {index: '1.8 kB'}), ['Size budget exceeded: index.js gzip 2.00 kB > 1.80 kB']);
+        assert.deepEqual(checkSizeBudgets(report, {index: 1500}), [
+            'Size budget exceeded: index.js gzip 2.00 kB > 1.50 kB',
+            'Size budget exceeded: index.cjs gzip 1.60 kB > 1.50 kB'
+        ]);
+    });
+
+    it('checks output file budgets by metric', () => {
+        assert.deepEqual(checkSizeBudgets(report, {'chunks/shared-a1b2c3d4.js': {raw: '1 kB', brotli: '1 kB'}}), ['Size budget exceeded: chunks/shared-a1b2c3d4.js raw 2.00 kB > 1.00 kB']);
+        assert.deepEqual(checkSizeBudgets(report, {'index.cjs': '2 kB'}), []);
+    });
+
+    it('warns about unmatched budgets and rejects invalid ones', () => {
+        const warn = mock.method(console, 'warn', () => undefined);
+        try {
+            assert.deepEqual(checkSizeBudgets(report, {cli: '1 kB'}), []);
+        } finally {
+            warn.mock.restore();
+        }
+        assert.deepEqual(warn.mock.calls.map(call => call.arguments[0]), ['Size budget "cli" doesn\'t match any entry or output file']);
+        assert.throws(() => checkSizeBudgets(report, {index: {zstd: '1 kB'} as object}), /Invalid size budget "index": unknown size "zstd"/);
+    });
+});
+
+describe('renderSizeReport', () => {
+    it('compares with the previous report ignoring chunk hashes', () => {
+        const previous: SizeReport = {
+            files: [
+                {file: 'index.js', entry: 'index', ...size(1000)},
+                {file: 'chunks/shared-00000000.js', entry: null, ...size(500)},
+                {file: 'old.js', entry: 'old', ...size(100)}
+            ],
+            entries: []
+        };
+        const lines = renderSizeReport(report, previous).split('\n');
+
+        assert.match(lines[0], /^File\s+Raw\s+Minified\s+Gzip\s+Brotli$/);
+        assert.match(lines[1], /^index\.js\s.*1\.50 kB \(\+500 B \+50\.0%\)/);
+        assert.match(lines[2], /^index\.cjs \(new\)/);
+        assert.match(lines[3], /^chunks\/shared-a1b2c3d4\.js\s+2\.00 kB\s+1\.00 kB\s+500 B\s+490 B$/);
+        assert.match(lines[4], /^old\.js \(removed\)/);
+        assert.match(lines[5], /^index\.js with imports \(new\)/);
+    });
+});
\ No newline at end of file
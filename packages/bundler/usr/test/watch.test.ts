@@ -0,0 +1,101 @@
+import {after, before, describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {createDeclarationTracker, formatRollupLog, watchBuild} from "@/watch";
+
+describe('formatRollupLog', () => {
+    it('prefixes the message with its location', () => {
+        const file = path.resolve('src/index.ts');
+
+        assert.equal(formatRollupLog({message: 'Unexpected token\nat line 3', loc: {file, line: 3, column: 7}}), `${path.normalize('src/index.ts')}:3:7 Unexpected token`);
+        assert.equal(formatRollupLog({message: 'Unresolved import', id: file}), `${path.normalize('src/index.ts')} Unresolved import`);
+        assert.equal(formatRollupLog({message: 'Generic warning'}), 'Generic warning');
+    });
+});
+
+describe('createDeclarationTracker', () => {
+    let root: string;
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-bundle-watch-'));
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('reports changes of the declaration output only', () => {
+        const file = path.resolve(root, 'index.ts');
+        const isTypeChange = createDeclarationTracker();
+
+        fs.writeFileSync(file, 'export function add(a: number, b: number): number {\n    return a + b;\n}');
+        assert.equal(isTypeChange(file), true);
+        fs.writeFileSync(file, 'export function add(a: number, b: number): number {\n    return b + a;\n}');
+        assert.equal(isTypeChange(file), false);
+        fs.writeFileSync(file, 'export function add(a: number, b: number): string {\n    return `${a + b}`;\n}');
+        assert.equal(isTypeChange(file), true);
+    });
+
+    it('counts changes it can not compute', () => {
+        const file = path.resolve(root, 'inferred.ts');
+        const isTypeChange = createDeclarationTracker();
+
+        fs.writeFileSync(file, 'export const value = [1, 2].map(item => item * 2);');
+        isTypeChange(file);
+        assert.equal(isTypeChange(file), true);
+        assert.equal(isTypeChange(path.resolve(root, 'style.css')), true);
+    });
+});
+
+describe('watchBuild', () => {
+    let root: string;
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-bundle-watch-build-'));
+        fs.writeFileSync(path.resolve(root, 'index.ts'), 'export const answer: number = 42;');
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('prints the size summary and exceeded budgets after each build', async () => {
+        // The TypeScript plugin compiles the files of the working directory
+        const cwd = process.cwd();
+        process.chdir(root);
+        const logs: string[] = [];
+        const log = mock.method(console, 'log', (message: string) => logs.push(message));
+        const error = mock.method(console, 'error', (message: string) => logs.push(message));
+        const watcher = watchBuild(path.resolve(root, 'index.ts'), path.resolve(root, 'dist'), root, {
+            config: false,
+            formats: 'es:js',
+            noDts: true,
+            budgets: {index: 1}
+        });
+        const waitFor = async (builds: number) => {
+            for (let i = 0; i < 200 && logs.filter(message => message === 'Watching for changes...').length < builds; i++) {
+                await new Promise(resolve => setTimeout(resolve, 50));
+            }
+        };
+        try {
+            await waitFor(1);
+            fs.writeFileSync(path.resolve(root, 'index.ts'), 'export const answer: number = 42;\nexport const question: string = \'?\';');
+            await waitFor(2);
+        } finally {
+            await watcher.close();
+            log.mock.restore();
+            error.mock.restore();
+            process.chdir(cwd);
+        }
+
+        const summaries = logs.flatMap((message, index) => message.startsWith('File ') ? [index] : []);
+        assert.equal(summaries.length, 2, logs.join('\n'));
+        for (const summary of summaries) {
+            assert.match(logs[summary], /^index\.js\s/m);
+            assert.match(logs[summary + 1], /^Size budget exceeded: index\.js gzip \d+ B > 1 B$/);
+            assert.equal(logs[summary + 2], 'Watching for changes...');
+        }
+    });
+});
\ No newline at end of file
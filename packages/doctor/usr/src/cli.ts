@@ -0,0 +1,37 @@
+#! /usr/bin/env node
+
+import {defineCli, getCliArgs, getFileConstants, getPackageVersion} from "@monk-js/utils";
+import {getWorkspacePackages} from "@monk-js/runner";
+import {DOCTOR_RULES, runDoctor} from "@/utils";
+import * as process from "node:process";
+
+const cli = defineCli({
+    name: 'monk-doctor',
+    description: 'Check workspace package.json files for consistency: shared dependency versions, internal ranges, exported files and required fields',
+    version: getPackageVersion(import.meta.url),
+    options: {
+        root: {type: 'string', placeholder: 'path', description: 'Workspace root directory'},
+        packages: {type: 'string', placeholder: 'path', description: 'Packages directory, instead of the root package.json workspaces'},
+        rule: {type: 'string', multiple: true, choices: DOCTOR_RULES, description: 'Rule to check, can be repeated (default: all)'},
+        fix: {type: 'boolean', description: 'Repair fixable issues'},
+        dryRun: {type: 'boolean', description: 'Print the diff of --fix without writing'}
+    }
+});
+
+const {env} = getCliArgs(cli);
+
+const {__root} = getFileConstants(import.meta.url, env.root ?? process.cwd());
+
+// List of `package.json` files from the root workspaces globs or a specified directory.
+const packages: string[] = getWorkspacePackages(__root, env.packages);
+
+const result = await runDoctor(__root, packages, {
+    rules: env.rule?.length > 0 ? env.rule : undefined,
+    fix: !!env.fix,
+    dryRun: !!env.dryRun
+});
+
+// Unfixed issues fail CI
+if (result.issues.length > result.fixed.length) {
+    process.exit(1)
+}
\ No newline at end of file
@@ -0,0 +1,370 @@
+import path from "path";
+import fs from "fs";
+import {DEPENDENCY_TYPES, DependencyType, getDependencyTarget, PackageJson} from "@monk-js/runner";
+import {getExportsBuild, PackageExports, resolveConfig} from "@monk-js/bundler";
+import {formatJson, getJsonFormat, JsonFormat} from "@monk-js/utils";
+import {compareVersions, getRangeVersion, satisfiesRange, updateDependencyRange, writeFileChanges} from "@monk-js/version";
+
+/**
+ * Doctor command environment
+ */
+export type DoctorEnv = {
+    root: string,
+    packages: string,
+    rule: DoctorRule[],
+    fix: boolean,
+    dryRun: boolean
+}
+
+/**
+ * Workspace consistency rule
+ */
+export type DoctorRule = 'dependency-version' | 'internal-range' | 'exported-files' | 'required-fields';
+
+/**
+ * Workspace consistency rules, in check order
+ */
+export const DOCTOR_RULES: DoctorRule[] = ['dependency-version', 'internal-range', 'exported-files', 'required-fields'];
+
+/**
+ * Fields every published package declares
+ */
+export const REQUIRED_FIELDS = ['license', 'repository', 'files'] as const;
+
+/**
+ * package.json repository field
+ */
+export type PackageRepository = string | { type?: string, url?: string, directory?: string };
+
+/**
+ * package.json fields checked by the doctor
+ */
+export type PackageManifest = PackageJson & PackageExports & {
+    private?: boolean,
+    license?: string,
+    repository?: PackageRepository,
+    files?: string[]
+}
+
+/**
+ * Loaded package.json file
+ */
+export type PackageFile = {
+    /**
+     * package.json file path
+     */
+    file: string,
+    info: PackageManifest,
+    /**
+     * Original formatting, kept when a fix rewrites the file
+     */
+    format: JsonFormat
+}
+
+/**
+ * Workspace consistency issue
+ */
+export type DoctorIssue = {
+    /**
+     * Package name
+     */
+    name: string,
+    rule: DoctorRule,
+    message: string,
+    /**
+     * Safe repair of the package.json content, issues without it are fixed by hand
+     */
+    fix?: (info: PackageManifest) => void
+}
+
+/**
+ * Doctor options
+ */
+export type DoctorOptions = {
+    /**
+     * Rules to check, every rule by default
+     */
+    rules?: DoctorRule[],
+    /**
+     * Repair fixable issues
+     */
+    fix?: boolean,
+    /**
+     * Print the diff of fixed package.json files without writing
+     */
+    dryRun?: boolean
+}
+
+/**
+ * Doctor result
+ */
+export type DoctorResult = {
+    issues: DoctorIssue[],
+    /**
+     * Issues repaired by `fix`, none in dry-run mode
+     */
+    fixed: DoctorIssue[],
+    /**
+     * Changed package.json files, or files that would change in dry-run mode
+     */
+    files: string[]
+}
+
+/**
+ * Dependency fields expected to agree across packages, peer ranges are intentionally wider
+ */
+const SHARED_DEPENDENCY_TYPES: DependencyType[] = ['dependencies', 'devDependencies', 'optionalDependencies'];
+
+/**
+ * Internal dependency ranges which accept any version
+ */
+const UNPINNED_RANGES = ['', '*', 'x', 'latest'];
+
+/**
+ * Reads workspace package.json files.
+ *
+ * @param packages Package file list.
+ */
+export function readPackageFiles(packages: string[]): PackageFile[] {
+    return packages.map(file => {
+        const content = fs.readFileSync(file, 'utf-8');
+        return {file, info: JSON.parse(content), format: getJsonFormat(content)};
+    });
+}
+
+/**
+ * Checks that workspace packages agree on the ranges of shared external dependencies.
+ * The range of the highest version is expected, mismatching single version ranges are fixable.
+ *
+ * @param packages Workspace package files.
+ */
+export function checkDependencyVersions(packages: PackageFile[]): DoctorIssue[] {
+    const internal = new Set(packages.map(({info}) => info.name));
+    // Dependency => range => package names
+    const ranges: Record<string, Record<string, Set<string>>> = {};
+    for (const {info} of packages) {
+        for (const type of SHARED_DEPENDENCY_TYPES) {
+            for (const [dependency, range] of Object.entries(info[type] ?? {})) {
+                if (!internal.has(getDependencyTarget(dependency, range))) {
+                    ((ranges[dependency] ??= {})[range] ??= new Set()).add(info.name);
+                }
+            }
+        }
+    }
+
+    const issues: DoctorIssue[] = [];
+    for (const [dependency, byRange] of Object.entries(ranges).sort(([a], [b]) => a.localeCompare(b))) {
+        if (Object.keys(byRange).length < 2) {
+            continue;
+        }
+        // Highest version first, ties and symbolic ranges by the number of packages using them
+        const [expected] = Object.keys(byRange).sort((a, b) => {
+            const [versionA, versionB] = [getRangeVersion(a), getRangeVersion(b)];
+            if (versionA != null && versionB != null && compareVersions(versionA, versionB) !== 0) {
+                return compareVersions(versionB, versionA);
+            }
+            return (versionB != null ? 1 : 0) - (versionA != null ? 1 : 0) || byRange[b].size - byRange[a].size;
+        });
+        const fixable = getRangeVersion(expected) != null;
+
+        for (const [range, names] of Object.entries(byRange)) {
+            if (range === expected) {
+                continue;
+            }
+            for (const name of names) {
+                issues.push({
+                    name,
+                    rule: 'dependency-version',
+                    message: `${dependency} "${range}" differs from "${expected}" used by ${[...byRange[expected]].join(', ')}`,
+                    fix: fixable && getRangeVersion(range) != null ? info => {
+                        for (const type of SHARED_DEPENDENCY_TYPES) {
+                            if (info[type]?.[dependency] === range) {
+                                info[type][dependency] = expected;
+                            }
+                        }
+                    } : undefined
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Checks that dependencies on workspace packages use ranges matching their current versions instead of `*`.
+ * Fixed ranges keep their `^`, `~` and `workspace:` prefix, unpinned ones become `^version`.
+ *
+ * @param packages Workspace package files.
+ */
+export function checkInternalRanges(packages: PackageFile[]): DoctorIssue[] {
+    const versions = Object.fromEntries(packages.map(({info}) => [info.name, info.version]));
+    const issues: DoctorIssue[] = [];
+
+    for (const {info} of packages) {
+        for (const type of DEPENDENCY_TYPES) {
+            for (const [dependency, range] of Object.entries(info[type] ?? {})) {
+                const target = getDependencyTarget(dependency, range);
+                if (!Object.hasOwn(versions, target) || target !== dependency) {
+                    continue;
+                }
+
+                const version = versions[target];
+                if (UNPINNED_RANGES.includes(range.trim())) {
+                    issues.push({
+                        name: info.name,
+                        rule: 'internal-range',
+                        message: `${type}.${dependency} "${range}" accepts any version, expected "^${version}"`,
+                        fix: info => {
+                            info[type][dependency] = `^${version}`;
+                        }
+                    });
+                } else if (satisfiesRange(version, range.replace(/^workspace:/, '')) === false) {
+                    const updated = updateDependencyRange(range, version);
+                    issues.push({
+                        name: info.name,
+                        rule: 'internal-range',
+                        message: `${type}.${dependency} "${range}" doesn't match the workspace version ${version}`,
+                        fix: updated != null ? info => {
+                            info[type][dependency] = updated;
+                        } : undefined
+                    });
+                }
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Checks that `exports`, `main`, `module`, `types` and `bin` point to files monk-bundle produces from
+ * the package sources, the output and sources directories follow the package monk.config.
+ *
+ * @param packageFile Workspace package file.
+ */
+export async function checkExportedFiles(packageFile: PackageFile): Promise<DoctorIssue[]> {
+    const {file, info} = packageFile;
+    const root = path.dirname(file);
+    try {
+        const config = await resolveConfig(root);
+        const src = path.resolve(root, config.src ?? (fs.existsSync(path.resolve(root, 'usr/src')) ? 'usr/src' : 'src'));
+        getExportsBuild(info, root, path.resolve(root, config.dist ?? 'dist'), src);
+        return [];
+    } catch (e: unknown) {
+        return [{name: info.name, rule: 'exported-files', message: (e as Error).message}];
+    }
+}
+
+/**
+ * Gets the value of a required field inherited from the root package.json,
+ * the repository gets the package directory.
+ *
+ * @param rootInfo Root package.json content.
+ * @param field Required field.
+ * @param directory Package directory relative to the root.
+ */
+function getInheritedField(rootInfo: Partial<PackageManifest>, field: typeof REQUIRED_FIELDS[number], directory: string): unknown {
+    if (field !== 'repository' || rootInfo.repository == null) {
+        return rootInfo[field] ?? null;
+    }
+    const repository = typeof rootInfo.repository === 'string' ? {type: 'git', url: rootInfo.repository} : rootInfo.repository;
+    return {...repository, directory};
+}
+
+/**
+ * Checks that published packages declare `license`, `repository` and `files`, and that
+ * the repository directory is the package one. Missing fields are inherited from the root package.json.
+ *
+ * @param packageFile Workspace package file.
+ * @param root Workspace root directory.
+ */
+export function checkRequiredFields(packageFile: PackageFile, root: string): DoctorIssue[] {
+    const {file, info} = packageFile;
+    if (info.private) {
+        return [];
+    }
+    const rootFile = path.resolve(root, 'package.json');
+    const rootInfo: Partial<PackageManifest> = fs.existsSync(rootFile) ? JSON.parse(fs.readFileSync(rootFile, 'utf-8')) : {};
+    const directory = path.relative(root, path.dirname(file)).replace(/\\/g, '/');
+    const issues: DoctorIssue[] = [];
+
+    for (const field of REQUIRED_FIELDS) {
+        const value = info[field];
+        if (value != null && value !== '' && !(Array.isArray(value) && value.length === 0)) {
+            continue;
+        }
+        const inherited = getInheritedField(rootInfo, field, directory);
+        issues.push({
+            name: info.name,
+            rule: 'required-fields',
+            message: `Missing "${field}"${inherited == null ? ', the root package.json has none to inherit' : ''}`,
+            fix: inherited != null ? info => {
+                Object.assign(info, {[field]: inherited});
+            } : undefined
+        });
+    }
+
+    const repository = info.repository;
+    if (repository != null && typeof repository === 'object' && repository.directory != null && path.normalize(repository.directory) !== path.normalize(directory)) {
+        issues.push({
+            name: info.name,
+            rule: 'required-fields',
+            message: `repository.directory "${repository.directory}" is not the package directory "${directory}"`,
+            fix: info => {
+                (info.repository as Exclude<PackageRepository, string>).directory = directory;
+            }
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Checks workspace package.json files for consistency and repairs fixable issues.
+ *
+ * @param root Workspace root directory.
+ * @param packages Package file list.
+ * @param options Doctor options.
+ */
+export async function runDoctor(root: string, packages: string[], options: DoctorOptions = {}): Promise<DoctorResult> {
+    const rules = options.rules ?? DOCTOR_RULES;
+    const packageFiles = readPackageFiles(packages.map(file => path.resolve(root, file)));
+
+    const issues: DoctorIssue[] = [];
+    if (rules.includes('dependency-version')) {
+        issues.push(...checkDependencyVersions(packageFiles));
+    }
+    if (rules.includes('internal-range')) {
+        issues.push(...checkInternalRanges(packageFiles));
+    }
+    for (const packageFile of packageFiles) {
+        if (rules.includes('exported-files')) {
+            issues.push(...await checkExportedFiles(packageFile));
+        }
+        if (rules.includes('required-fields')) {
+            issues.push(...checkRequiredFields(packageFile, root));
+        }
+    }
+
+    const fixable = issues.filter(issue => issue.fix != null);
+    const fixed: DoctorIssue[] = options.fix && !options.dryRun ? fixable : [];
+    for (const issue of issues) {
+        const status = fixed.includes(issue) ? 'Fixed' : issue.fix != null ? 'Fixable' : 'Error';
+        console.log(`Package: ${issue.name}. ${status} (${issue.rule}): ${issue.message}`);
+    }
+
+    const files: string[] = [];
+    if (options.fix) {
+        for (const {file, info, format} of packageFiles) {
+            fixable.filter(issue => issue.name === info.name).forEach(issue => issue.fix(info));
+            if (writeFileChanges(file, formatJson(info, format), options.dryRun)) {
+                files.push(file);
+            }
+        }
+    }
+
+    console.log(issues.length > 0 ? `Issues: ${issues.length}. Fixed: ${fixed.length}. Fixable: ${fixable.length - fixed.length}` : `No issues found.`);
+
+    return {issues, fixed, files};
+}
\ No newline at end of file
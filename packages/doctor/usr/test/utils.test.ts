@@ -0,0 +1,66 @@
+import {after, before, describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {runDoctor} from "@/utils";
+
+describe('runDoctor', () => {
+    let root: string;
+    let packages: string[];
+
+    const read = (name: string) => JSON.parse(fs.readFileSync(path.resolve(root, 'packages', name, 'package.json'), 'utf-8'));
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-doctor-'));
+        const fields = {license: 'MIT', files: ['dist'], repository: {type: 'git', url: 'https://example.com/repo.git', directory: 'packages/a'}};
+        fs.writeFileSync(path.resolve(root, 'package.json'), JSON.stringify({license: 'MIT', repository: 'https://example.com/repo.git'}));
+        packages = Object.entries({
+            a: {name: 'a', version: '1.2.0', ...fields, main: './dist/index.js', dependencies: {lodash: '^4.17.0'}},
+            b: {name: 'b', version: '1.0.0', ...fields, repository: {...fields.repository, directory: 'packages/b'}, dependencies: {a: '*', lodash: '^4.17.21'}},
+            c: {name: 'c', version: '1.0.0', files: ['dist'], devDependencies: {a: '~1.1.0', lodash: 'latest'}}
+        }).map(([directory, json]) => {
+            const file = path.resolve(root, 'packages', directory, 'package.json');
+            fs.mkdirSync(path.dirname(file), {recursive: true});
+            fs.writeFileSync(file, JSON.stringify(json, null, '\t') + '\n');
+            return file;
+        });
+        mock.method(console, 'log', () => undefined);
+        mock.method(process.stdout, 'write', () => true);
+    });
+
+    after(() => {
+        mock.restoreAll();
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('reports issues of every rule', async () => {
+        const {issues, fixed, files} = await runDoctor(root, packages);
+
+        assert.deepEqual(issues.map(issue => `${issue.name} ${issue.rule}: ${issue.message}`), [
+            'a dependency-version: lodash "^4.17.0" differs from "^4.17.21" used by b',
+            'c dependency-version: lodash "latest" differs from "^4.17.21" used by b',
+            'b internal-range: dependencies.a "*" accepts any version, expected "^1.2.0"',
+            'c internal-range: devDependencies.a "~1.1.0" doesn\'t match the workspace version 1.2.0',
+            `a exported-files: Invalid package exports:\n  dist${path.sep}index.js has no source file src${path.sep}index{.ts,.mts,.tsx,.js,.mjs}`,
+            'c required-fields: Missing "license"',
+            'c required-fields: Missing "repository"'
+        ]);
+        assert.deepEqual(fixed, []);
+        assert.deepEqual(files, []);
+    });
+
+    it('fixes the issues it can, keeping the file format', async () => {
+        const {fixed, files} = await runDoctor(root, packages, {rules: ['dependency-version', 'internal-range', 'required-fields'], fix: true});
+
+        assert.equal(fixed.length, 5);
+        assert.deepEqual(files, [packages[0], packages[1], packages[2]]);
+        assert.deepEqual(read('a').dependencies, {lodash: '^4.17.21'});
+        assert.deepEqual(read('b').dependencies, {a: '^1.2.0', lodash: '^4.17.21'});
+        assert.deepEqual(read('c').devDependencies, {a: '~1.2.0', lodash: 'latest'});
+        assert.equal(read('c').license, 'MIT');
+        assert.deepEqual(read('c').repository, {type: 'git', url: 'https://example.com/repo.git', directory: 'packages/c'});
+        assert.match(fs.readFileSync(packages[2], 'utf-8'), /^\{\n\t"name": "c",[\s\S]*\}\n$/);
+        assert.equal((await runDoctor(root, packages, {rules: ['internal-range', 'required-fields']})).issues.length, 0);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,38 @@
+#! /usr/bin/env node
+
+import {defineCli, getCliArgs, getFileConstants, getPackageVersion} from "@monk-js/utils";
+import {getWorkspacePackages} from "@monk-js/runner";
+import {publishPackages} from "@/utils";
+import * as process from "node:process";
+
+const cli = defineCli({
+    name: 'monk-publish',
+    description: 'Publish workspace packages in dependency order, versions already in the registry are skipped',
+    version: getPackageVersion(import.meta.url),
+    options: {
+        root: {type: 'string', placeholder: 'path', description: 'Workspace root directory'},
+        packages: {type: 'string', placeholder: 'path', description: 'Packages directory, instead of the root package.json workspaces'},
+        tag: {type: 'string', description: 'Distribution tag (default: latest)'},
+        registry: {type: 'string', placeholder: 'url', description: 'Registry URL'},
+        dryRun: {type: 'boolean', description: 'Run npm publish --dry-run'},
+        concurrency: {type: 'number', alias: 'c', default: 1, description: 'Maximum number of packages published at once'}
+    }
+});
+
+const {env} = getCliArgs(cli);
+
+const {__root} = getFileConstants(import.meta.url, env.root ?? process.cwd());
+
+// List of `package.json` files from the root workspaces globs or a specified directory.
+const packages: string[] = getWorkspacePackages(__root, env.packages);
+
+const results = await publishPackages(packages, {
+    tag: env.tag,
+    registry: env.registry,
+    dryRun: !!env.dryRun
+}, env.concurrency > 0 ? env.concurrency : 1);
+
+// If result has errors
+if (results.some(result => result.status === 'failed')) {
+    process.exit(1)
+}
\ No newline at end of file
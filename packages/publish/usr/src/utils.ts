@@ -0,0 +1,217 @@
+import path from "path";
+import fs from "fs";
+import {SpawnOptions} from "child_process";
+import {
+    CommandLineError,
+    formatDuration,
+    getPackageDependencies,
+    PackageJson,
+    processSpawn,
+    scheduleTasks
+} from "@monk-js/runner";
+
+/**
+ * Publish command environment
+ */
+export type PublishEnv = {
+    root: string,
+    packages: string,
+    tag: string,
+    registry: string,
+    dryRun: boolean,
+    concurrency: number,
+}
+
+/**
+ * Publish options
+ */
+export type PublishOptions = {
+    /**
+     * Distribution tag, `latest` by default
+     */
+    tag?: string,
+    /**
+     * Registry URL, the npm configured registry by default
+     */
+    registry?: string,
+    /**
+     * Run `npm publish --dry-run`, nothing is uploaded
+     */
+    dryRun?: boolean
+}
+
+/**
+ * Package publish status
+ */
+export type PublishStatus = 'published' | 'skipped' | 'failed';
+
+/**
+ * Package publish result
+ */
+export type PublishResult = {
+    name: string,
+    version: string,
+    status: PublishStatus,
+    /**
+     * Reason the package was skipped or failed
+     */
+    reason?: string
+}
+
+/**
+ * Builds npm registry arguments.
+ *
+ * @param options Publish options.
+ */
+function getRegistryArgs(options: PublishOptions): string[] {
+    return options.registry ? ['--registry', options.registry] : [];
+}
+
+/**
+ * Characters cmd.exe doesn't keep as is in double-quoted arguments: quotes end the argument,
+ * `%` expands variables and `&` splits commands once `npm.cmd` passes its arguments on
+ */
+const CMD_UNSAFE_PATTERN = /["%&\r\n]/;
+
+/**
+ * Runs npm without a shell. On Windows npm is the `npm.cmd` batch file, which Node.js only starts
+ * through the shell, so the arguments are quoted there and arguments cmd.exe would alter are rejected.
+ *
+ * @param args npm arguments.
+ * @param options Spawn options.
+ */
+function npmSpawn(args: string[], options: SpawnOptions = {}): Promise<string | CommandLineError> {
+    if (process.platform === 'win32') {
+        const unsafe = args.find(arg => CMD_UNSAFE_PATTERN.test(arg));
+        if (unsafe != null) {
+            const error: CommandLineError = {stdout: '', stderr: `Unsupported npm argument on Windows: ${unsafe}`, code: 1};
+            return Promise.reject(error);
+        }
+        return processSpawn('npm.cmd', args.map(arg => `"${arg}"`), {...options, shell: true});
+    }
+    return processSpawn('npm', args, options);
+}
+
+/**
+ * Checks whether a package version is already present in the registry.
+ *
+ * @param name Package name.
+ * @param version Package version.
+ * @param options Publish options.
+ * @throws CommandLineError if the registry can't be queried.
+ */
+export async function isVersionPublished(name: string, version: string, options: PublishOptions = {}): Promise<boolean> {
+    try {
+        const output = await npmSpawn(['view', `${name}@${version}`, 'version', ...getRegistryArgs(options)]) as string;
+        // Missing version of an existing package prints nothing
+        return output.trim() !== '';
+    } catch (e: unknown) {
+        const error = e as CommandLineError;
+        // Package was never published
+        if (/\bE404\b|404 Not Found/.test(error?.stderr ?? '')) {
+            return false;
+        }
+        throw e;
+    }
+}
+
+/**
+ * Publishes a package unless it's private or its version is already in the registry.
+ *
+ * @param file package.json file path.
+ * @param options Publish options.
+ */
+export async function publishPackage(file: string, options: PublishOptions = {}): Promise<PublishResult> {
+    const packageInfo: PackageJson & { private?: boolean } = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const {name, version} = packageInfo;
+
+    if (packageInfo.private) {
+        console.log(`Package: ${name}. Skipped: private package`);
+        return {name, version, status: 'skipped', reason: 'private package'};
+    }
+
+    try {
+        if (await isVersionPublished(name, version, options)) {
+            console.log(`Package: ${name}. Skipped: ${version} is already published`);
+            return {name, version, status: 'skipped', reason: 'already published'};
+        }
+
+        console.log(`Package: ${name}. Publishing ${version}...`);
+        const args = ['publish', '--tag', options.tag ?? 'latest', ...getRegistryArgs(options), ...(options.dryRun ? ['--dry-run'] : [])];
+        await npmSpawn(args, {cwd: path.dirname(file)});
+        console.log(`Package: ${name}. Successful!`);
+        return {name, version, status: 'published'};
+    } catch (e: unknown) {
+        const error = e as CommandLineError;
+        console.error(`Package: ${name}. ERROR!`);
+        console.error(error?.stderr || error?.stdout || error);
+        return {name, version, status: 'failed', reason: `exit code ${error?.code ?? 1}`};
+    }
+}
+
+/**
+ * Publishes packages in dependency order: a package starts after the packages it depends on are published or skipped.
+ * Dependents of failed packages are not published.
+ *
+ * @param packages Package file list.
+ * @param options Publish options.
+ * @param concurrency Maximum number of packages published at the same time.
+ * @returns Publish results in the publish order.
+ */
+export async function publishPackages(packages: string[], options: PublishOptions = {}, concurrency = 1): Promise<PublishResult[]> {
+    // Dev dependencies are not installed by consumers, so they don't affect the publish order
+    const {files, deps} = getPackageDependencies(packages, [], ['dependencies', 'peerDependencies', 'optionalDependencies']);
+    const fileDeps: Record<string, string[]> = {};
+    for (const file of packages) {
+        fileDeps[file] = deps[files[file]].map(name => packages.find(dep => files[dep] === name));
+    }
+
+    console.log(`Publishing packages${options.dryRun ? ' (dry run)' : ''} with tag "${options.tag ?? 'latest'}"${options.registry ? ` to ${options.registry}` : ''}`);
+    console.log(`Packages: ${packages.length}`);
+
+    const results: PublishResult[] = [];
+    const started = Date.now();
+    const {pending, skipped} = await scheduleTasks(fileDeps, {concurrency, propagate: true, bail: false}, async (file: string) => {
+        const result = await publishPackage(file, options);
+        results.push(result);
+        return result.status !== 'failed';
+    });
+
+    const getVersion = (file: string) => JSON.parse(fs.readFileSync(file, 'utf-8')).version;
+    for (const file in skipped) {
+        results.push({name: files[file], version: getVersion(file), status: 'failed', reason: `${files[skipped[file]]} failed`});
+    }
+    for (const file of pending) {
+        results.push({name: files[file], version: getVersion(file), status: 'failed', reason: 'dependency cycle'});
+    }
+
+    printPublishSummary(results, options);
+    console.log(`Duration: ${formatDuration(Date.now() - started)}`);
+    return results;
+}
+
+/**
+ * Prints published, skipped and failed packages.
+ *
+ * @param results Publish results.
+ * @param options Publish options.
+ */
+export function printPublishSummary(results: PublishResult[], options: PublishOptions = {}): void {
+    const groups: Record<PublishStatus, string> = {
+        published: options.dryRun ? 'Would publish' : 'Published',
+        skipped: 'Skipped',
+        failed: 'Failed'
+    };
+
+    for (const status of Object.keys(groups) as PublishStatus[]) {
+        const items = results.filter(result => result.status === status);
+        if (items.length === 0) {
+            continue;
+        }
+        const print = status === 'failed' ? console.error : console.log;
+        print(`${groups[status]}: ${items.length}`);
+        for (const item of items) {
+            print(`  ${item.name}@${item.version}${item.reason ? ` (${item.reason})` : ''}`);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+import {after, before, describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {publishPackage, publishPackages} from "@/utils";
+
+// The registry is replaced with a fake npm on PATH
+describe('publishPackages', {skip: process.platform === 'win32'}, () => {
+    let root: string;
+    let log: string;
+    let packages: string[];
+    const env = {PATH: process.env.PATH, NPM_LOG: process.env.NPM_LOG};
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-publish-'));
+        log = path.resolve(root, 'npm.log');
+        const bin = path.resolve(root, 'bin');
+        fs.mkdirSync(bin);
+        fs.writeFileSync(path.resolve(bin, 'npm'), [
+            '#!/bin/sh',
+            'echo "$* ($(basename "$PWD"))" >> "$NPM_LOG"',
+            'case "$1 $2" in',
+            '    "view b@1.0.0") echo 1.0.0 ;;',
+            '    "view c@1.0.0") echo "npm ERR! code E404" >&2; exit 1 ;;',
+            '    publish*) if [ "$(basename "$PWD")" = f ]; then echo failed >&2; exit 1; fi ;;',
+            'esac'
+        ].join('\n'), {mode: 0o755});
+        process.env.PATH = `${bin}${path.delimiter}${process.env.PATH}`;
+        process.env.NPM_LOG = log;
+
+        packages = Object.entries({
+            c: {name: 'c', version: '1.0.0', dependencies: {b: '^1.0.0'}},
+            b: {name: 'b', version: '1.0.0', dependencies: {a: '^1.0.0'}},
+            a: {name: 'a', version: '1.0.0', devDependencies: {c: '*'}},
+            d: {name: 'd', version: '1.0.0', private: true},
+            e: {name: 'e', version: '1.0.0', peerDependencies: {f: '^1.0.0'}},
+            f: {name: 'f', version: '1.0.0'}
+        }).map(([directory, json]) => {
+            const file = path.resolve(root, directory, 'package.json');
+            fs.mkdirSync(path.dirname(file));
+            fs.writeFileSync(file, JSON.stringify(json));
+            return file;
+        });
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'error', () => undefined);
+    });
+
+    after(() => {
+        mock.restoreAll();
+        Object.assign(process.env, env);
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('publishes in dependency order and skips dependents of failed packages', async () => {
+        const results = await publishPackages(packages, {tag: 'next', registry: 'http://localhost:4873'});
+        const byName = Object.fromEntries(results.map(result => [result.name, result]));
+
+        assert.deepEqual(byName.a, {name: 'a', version: '1.0.0', status: 'published'});
+        assert.deepEqual(byName.b, {name: 'b', version: '1.0.0', status: 'skipped', reason: 'already published'});
+        assert.deepEqual(byName.c, {name: 'c', version: '1.0.0', status: 'published'});
+        assert.deepEqual(byName.d, {name: 'd', version: '1.0.0', status: 'skipped', reason: 'private package'});
+        assert.deepEqual(byName.e, {name: 'e', version: '1.0.0', status: 'failed', reason: 'f failed'});
+        assert.deepEqual(byName.f, {name: 'f', version: '1.0.0', status: 'failed', reason: 'exit code 1'});
+
+        const calls = fs.readFileSync(log, 'utf-8').trim().split('\n');
+        const published = calls.filter(call => call.startsWith('publish')).map(call => call.replace('publish --tag next --registry http://localhost:4873 ', ''));
+        assert.deepEqual([...published].sort(), ['(a)', '(c)', '(f)']);
+        assert.ok(published.indexOf('(a)') < published.indexOf('(c)'));
+        assert.ok(calls.some(call => call.startsWith('view b@1.0.0 version --registry http://localhost:4873 ')));
+    });
+});
+
+describe('publishPackage on Windows', () => {
+    let root: string;
+    const platform = Object.getOwnPropertyDescriptor(process, 'platform');
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-publish-win-'));
+        fs.writeFileSync(path.resolve(root, 'package.json'), JSON.stringify({name: 'a', version: '1.0.0'}));
+        Object.defineProperty(process, 'platform', {...platform, value: 'win32'});
+    });
+
+    after(() => {
+        Object.defineProperty(process, 'platform', platform);
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('rejects arguments cmd.exe would alter before starting npm', async () => {
+        const errors: string[] = [];
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'error', (message: string) => errors.push(message));
+        try {
+            const result = await publishPackage(path.resolve(root, 'package.json'), {registry: 'http://localhost:4873/?a=1&b=%PATH%'});
+            assert.deepEqual(result, {name: 'a', version: '1.0.0', status: 'failed', reason: 'exit code 1'});
+        } finally {
+            mock.restoreAll();
+        }
+        assert.deepEqual(errors, ['Package: a. ERROR!', 'Unsupported npm argument on Windows: http://localhost:4873/?a=1&b=%PATH%']);
+    });
+});
\ No newline at end of file
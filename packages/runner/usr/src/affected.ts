@@ -0,0 +1,142 @@
+import path from "path";
+import {getDependencyTypes, getPackageDependencies, getUncheckedPackages, processSpawn, RunnerEnv} from "@/utils";
+
+/**
+ * Workspace root files shared by every package: manifest, package manager settings, lockfiles and TypeScript configs
+ */
+const SHARED_ROOT_FILES = /^(?:package\.json|\.yarnrc\.yml|\.npmrc|yarn\.lock|package-lock\.json|pnpm-lock\.yaml|tsconfig(?:\.[\w-]+)?\.json)$/;
+
+/**
+ * Selected package name => selection reason
+ */
+export type PackageSelection = Record<string, string>;
+
+/**
+ * Lists files changed since the given git ref, including uncommitted and untracked files.
+ *
+ * @param since Git ref to compare with.
+ * @param root Workspace root directory.
+ * @returns Absolute file paths.
+ */
+export async function getChangedFiles(since: string, root: string): Promise<string[]> {
+    const diff = await processSpawn('git', ['diff', '--name-only', '--relative', since, '--'], {cwd: root}) as string;
+    const untracked = await processSpawn('git', ['ls-files', '--others', '--exclude-standard'], {cwd: root}) as string;
+
+    return [...new Set(`${diff}\n${untracked}`.split('\n').filter(file => file.trim() !== ''))]
+        .map(file => path.resolve(root, file));
+}
+
+/**
+ * Finds the package owning a file, i.e. the package with the deepest directory containing the file.
+ *
+ * @param packages Package file list.
+ * @param file Absolute file path.
+ * @returns package.json file path, or `null` if the file belongs to no package.
+ */
+export function getOwningPackage(packages: string[], file: string): string | null {
+    let owner: string | null = null;
+
+    for (const packageFile of packages) {
+        const directory = path.dirname(packageFile);
+        if ((file === directory || file.startsWith(directory + path.sep)) && (owner == null || directory.length > path.dirname(owner).length)) {
+            owner = packageFile;
+        }
+    }
+
+    return owner;
+}
+
+/**
+ * Expands package selection with every package that depends on it, directly or transitively.
+ *
+ * @param deps Package name => workspace dependencies map.
+ * @param selection Initially selected packages, expanded in place.
+ */
+export function addPackageDependents(deps: Record<string, string[]>, selection: PackageSelection): PackageSelection {
+    const queue = Object.keys(selection);
+
+    while (queue.length > 0) {
+        const name = queue.shift();
+        for (const dependent in deps) {
+            if (Object.hasOwn(deps, dependent) && !Object.hasOwn(selection, dependent) && deps[dependent].includes(name)) {
+                selection[dependent] = `depends on ${name}`;
+                queue.push(dependent);
+            }
+        }
+    }
+
+    return selection;
+}
+
+/**
+ * Expands package selection with every package it depends on, directly or transitively.
+ *
+ * @param deps Package name => workspace dependencies map.
+ * @param selection Initially selected packages, expanded in place.
+ */
+export function addPackageDependencies(deps: Record<string, string[]>, selection: PackageSelection): PackageSelection {
+    const queue = Object.keys(selection);
+
+    while (queue.length > 0) {
+        const name = queue.shift();
+        for (const dependency of deps[name] ?? []) {
+            if (!Object.hasOwn(selection, dependency)) {
+                selection[dependency] = `dependency of ${name}`;
+                queue.push(dependency);
+            }
+        }
+    }
+
+    return selection;
+}
+
+/**
+ * Selects packages affected by changes since the given git ref: packages owning changed files
+ * and all their workspace dependents. Changes of shared root files, e.g. the root package.json
+ * or tsconfig.build.json, affect every package.
+ *
+ * @param packages Package file list.
+ * @param since Git ref to compare with.
+ * @param root Workspace root directory.
+ * @param env Build environment.
+ * @returns Filtered package file list.
+ */
+export async function getAffectedPackages(packages: string[], since: string, root: string, env: Partial<RunnerEnv> = {}): Promise<string[]> {
+    const {files, deps} = getPackageDependencies(packages, getUncheckedPackages(env), getDependencyTypes(env));
+    const changed: Record<string, number> = {};
+    const shared: string[] = [];
+    let unowned = 0;
+
+    for (const file of await getChangedFiles(since, root)) {
+        const owner = getOwningPackage(packages, file);
+        if (owner == null) {
+            if (SHARED_ROOT_FILES.test(path.relative(root, file))) {
+                shared.push(path.relative(root, file));
+            }
+            unowned++;
+            continue;
+        }
+        changed[files[owner]] = (changed[files[owner]] ?? 0) + 1;
+    }
+
+    const selection: PackageSelection = {};
+    for (const name in changed) {
+        selection[name] = `${changed[name]} changed file(s)`;
+    }
+    addPackageDependents(deps, selection);
+    if (shared.length > 0) {
+        for (const file of packages) {
+            selection[files[file]] ??= `root ${shared.join(', ')} changed`;
+        }
+    }
+
+    console.log(`Packages affected since "${since}": ${Object.keys(selection).length} of ${packages.length}`);
+    for (const name in selection) {
+        console.log(`Package: ${name}. Selected: ${selection[name]}`);
+    }
+    if (unowned > 0) {
+        console.log(`Changed files outside of packages: ${unowned}`);
+    }
+
+    return packages.filter(file => Object.hasOwn(selection, files[file]));
+}
@@ -0,0 +1,157 @@
+import path from "path";
+import fs from "fs";
+import {createHash} from "node:crypto";
+import {getFileList, matchGlob} from "@monk-js/utils";
+
+/**
+ * Package build cache options
+ */
+export type CacheOptions = {
+    /**
+     * Directory where cache entries are stored
+     */
+    cacheDir: string,
+    /**
+     * Globs (relative to the package directory) of files that affect the result
+     */
+    inputs: string[],
+    /**
+     * Globs (relative to the package directory) of files produced by the command
+     */
+    outputs: string[],
+}
+
+/**
+ * Cache entry manifest, saved next to the cached outputs
+ */
+export type CacheManifest = {
+    name: string,
+    hash: string,
+    files: string[],
+    stdout: string,
+}
+
+/**
+ * Default cache directory, relative to the workspace root
+ */
+export const DEFAULT_CACHE_DIR = './node_modules/.cache/monk-run';
+
+/**
+ * Cache entry manifest file name
+ */
+const CACHE_MANIFEST = 'manifest.json';
+
+/**
+ * Cached output files directory name
+ */
+const CACHE_OUTPUTS = 'outputs';
+
+/**
+ * Converts a path relative to the package directory into Unix-style path.
+ *
+ * @param directory Package directory
+ * @param file Absolute file path
+ */
+function getRelativePath(directory: string, file: string): string {
+    return path.relative(directory, file).replace(/\\/g, '/');
+}
+
+/**
+ * Collects package files matching the given globs. `node_modules` and `.git` directories are always skipped.
+ *
+ * @param directory Package directory
+ * @param patterns Globs relative to the package directory
+ * @param exclude Globs of files to skip
+ * @returns Sorted list of paths relative to the package directory
+ */
+export function getPackageFiles(directory: string, patterns: string[], exclude: string[] = []): string[] {
+    return getFileList(directory, directory, (itemPath, isDirectory) => isDirectory && ['node_modules', '.git'].includes(path.basename(itemPath)))
+        .map(file => getRelativePath(directory, file))
+        .filter(file => matchGlob(file, patterns) && !matchGlob(file, exclude))
+        .sort();
+}
+
+/**
+ * Calculates package content hash. It includes the command, `package.json`, every input file
+ * and the hashes of the upstream workspace dependencies.
+ *
+ * @param file package.json file path
+ * @param command Command
+ * @param args Command arguments
+ * @param depHashes Hashes of the package dependencies
+ * @param options Cache options
+ */
+export function getPackageHash(file: string, command: string, args: string[], depHashes: string[], options: CacheOptions): string {
+    const directory = path.dirname(file);
+    const hash = createHash('sha256');
+
+    hash.update(`${command} ${args.join(' ')}\0`);
+    hash.update(fs.readFileSync(file));
+    for (const input of getPackageFiles(directory, options.inputs, options.outputs)) {
+        hash.update(`\0${input}\0`);
+        hash.update(fs.readFileSync(path.resolve(directory, input)));
+    }
+    for (const depHash of [...depHashes].sort()) {
+        hash.update(`\0${depHash}`);
+    }
+
+    return hash.digest('hex');
+}
+
+/**
+ * Restores package outputs from the cache.
+ *
+ * @param file package.json file path
+ * @param hash Package hash
+ * @param options Cache options
+ * @returns Cache entry manifest, or `null` if there is no cache entry for the hash
+ */
+export function restorePackageCache(file: string, hash: string, options: CacheOptions): CacheManifest | null {
+    const entryDir = path.resolve(options.cacheDir, hash);
+    const manifestFile = path.resolve(entryDir, CACHE_MANIFEST);
+
+    if (!fs.existsSync(manifestFile)) {
+        return null;
+    }
+
+    const directory = path.dirname(file);
+    const manifest: CacheManifest = JSON.parse(fs.readFileSync(manifestFile, 'utf-8'));
+
+    // Remove stale outputs before restoring the recorded ones
+    for (const output of getPackageFiles(directory, options.outputs)) {
+        fs.rmSync(path.resolve(directory, output), {force: true});
+    }
+    for (const output of manifest.files) {
+        const target = path.resolve(directory, output);
+        fs.mkdirSync(path.dirname(target), {recursive: true});
+        fs.copyFileSync(path.resolve(entryDir, CACHE_OUTPUTS, output), target);
+    }
+
+    return manifest;
+}
+
+/**
+ * Saves package outputs to the cache.
+ *
+ * @param file package.json file path
+ * @param name Package name
+ * @param hash Package hash
+ * @param stdout Command output
+ * @param options Cache options
+ */
+export function savePackageCache(file: string, name: string, hash: string, stdout: string, options: CacheOptions): void {
+    const directory = path.dirname(file);
+    const entryDir = path.resolve(options.cacheDir, hash);
+    const files = getPackageFiles(directory, options.outputs);
+
+    fs.rmSync(entryDir, {recursive: true, force: true});
+    for (const output of files) {
+        const target = path.resolve(entryDir, CACHE_OUTPUTS, output);
+        fs.mkdirSync(path.dirname(target), {recursive: true});
+        fs.copyFileSync(path.resolve(directory, output), target);
+    }
+    // Manifest is written last, so an interrupted save is never treated as a cache hit
+    const manifest: CacheManifest = {name, hash, files, stdout};
+    fs.mkdirSync(entryDir, {recursive: true});
+    fs.writeFileSync(path.resolve(entryDir, CACHE_MANIFEST), JSON.stringify(manifest, null, 2));
+}
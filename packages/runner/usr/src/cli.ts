@@ -1,24 +1,140 @@
 #! /usr/bin/env node
 
 import * as path from 'path';
-import {getFileConstants, getFileList, getProcessArgs} from "@monk-js/utils";
-import {RunnerEnv, runPackageCommand} from "@/utils";
+import {defineCli, getCliArgs, getFileConstants, getPackageVersion} from "@monk-js/utils";
+import {CommandLineError, DEPENDENCY_CYCLE_HINT, getDependencyTypes, getPackageDependencies, getUncheckedPackages, runPackageCommand} from "@/utils";
+import {DEFAULT_CACHE_DIR} from "@/cache";
+import {getAffectedPackages} from "@/affected";
+import {filterPackages} from "@/filter";
+import {DEFAULT_WATCH_DEBOUNCE, watchPackageCommand} from "@/watch";
+import {renderGraph} from "@/graph";
+import {findDependencyCycles} from "@/scheduler";
+import {getWorkspacePackages} from "@/workspace";
+import {getPipeline, runTaskPipeline} from "@/tasks";
 
-const {env, args} = getProcessArgs<RunnerEnv>(process.argv);
+const cli = defineCli({
+    name: 'monk-run',
+    description: 'Run a command or package.json script in every workspace package, in dependency order',
+    usage: ['[options] <command> [args...]', '--script <name> [options] [args...]', '[options] <task> [tasks...]', 'graph [options]'],
+    version: getPackageVersion(import.meta.url),
+    commands: {
+        graph: 'Print workspace dependency graph'
+    },
+    stopEarly: true,
+    options: {
+        root: {type: 'string', placeholder: 'path', description: 'Workspace root directory'},
+        packages: {type: 'string', placeholder: 'path', description: 'Packages directory, instead of the root package.json workspaces'},
+        uncheck: {type: 'string', placeholder: 'names', description: 'Packages whose dependencies are ignored, comma separated, * to skip the scan. Breaks dependency cycles, e.g. a package devDepending on the bundler that depends on it'},
+        script: {type: 'string', placeholder: 'name', description: 'Run package.json script with its pre/post hooks'},
+        ifPresent: {type: 'boolean', description: 'Skip packages without the script'},
+        concurrency: {type: 'number', alias: 'c', description: 'Maximum number of packages run at once, half of the CPU cores by default'},
+        bail: {type: 'boolean', description: 'Stop starting packages after the first failure'},
+        continue: {type: 'boolean', description: 'Run dependents of failed packages anyway'},
+        outputMode: {type: 'string', choices: ['errors', 'stream', 'grouped'], default: 'errors', description: 'Output of the packages'},
+        logDir: {type: 'string', placeholder: 'path', description: 'Save per-package logs'},
+        report: {type: 'string', placeholder: 'file', description: 'Write JSON report'},
+        junit: {type: 'string', placeholder: 'file', description: 'Write JUnit XML report'},
+        cache: {type: 'boolean', description: 'Skip unchanged packages and restore their outputs'},
+        cacheDir: {type: 'string', placeholder: 'path', default: DEFAULT_CACHE_DIR, description: 'Build cache directory'},
+        inputs: {type: 'string', placeholder: 'globs', description: 'Package files hashed by the cache, comma separated (default: **)'},
+        outputs: {type: 'string', placeholder: 'globs', description: 'Package files restored by the cache, comma separated (default: dist/**)'},
+        since: {type: 'string', placeholder: 'ref', description: 'Only packages changed since the git ref and their dependents'},
+        filter: {type: 'string', placeholder: 'selectors', description: 'Only selected packages: names, globs, pkg..., ...pkg, !pkg'},
+        watch: {type: 'boolean', description: 'Re-run command in changed packages and their dependents'},
+        debounce: {type: 'number', placeholder: 'ms', default: DEFAULT_WATCH_DEBOUNCE, description: 'Delay before re-running on change'},
+        format: {type: 'string', choices: ['tree', 'dot', 'json'], default: 'tree', description: 'Dependency graph format'},
+        dev: {type: 'boolean', default: true, description: 'Follow devDependencies'},
+        peer: {type: 'boolean', default: true, description: 'Follow peerDependencies'},
+        optional: {type: 'boolean', default: true, description: 'Follow optionalDependencies'}
+    }
+});
+
+const {env, args} = getCliArgs(cli);
 
-const command = args.shift();
+// Script mode runs the package.json script, all arguments are passed to it
+const command = env.script ?? args.shift();
 
-const {__root, __dirname} = getFileConstants(import.meta.url, env.root ?? process.cwd());
+const {__root} = getFileConstants(import.meta.url, env.root ?? process.cwd());
 
-env.packages ??= './packages';
+env.cacheDir = path.resolve(__root, env.cacheDir);
+for (const key of ['logDir', 'report', 'junit'] as const) {
+    if (env[key]) {
+        env[key] = path.resolve(__root, env[key]);
+    }
+}
 
 if (command != null) {
-    // Filtered list of `package.json` files from a specified directory.
-    const packages: string[] = getFileList(path.resolve(__root, env.packages), __dirname)
-        .filter((file: string) => !path.dirname(file).includes('node_modules') && path.basename(file) === 'package.json');
+    // List of `package.json` files from the root workspaces globs or a specified directory.
+    let packages: string[] = getWorkspacePackages(__root, env.packages);
+
+    // `monk-run graph` prints the workspace dependency graph
+    if (command === 'graph' && env.script == null) {
+        const graph = getPackageDependencies(packages, getUncheckedPackages(env), getDependencyTypes(env));
+
+        try {
+            console.log(renderGraph(graph, env.format));
+        } catch (e: unknown) {
+            console.error((e as Error).message);
+            process.exit(1);
+        }
+
+        const cycles = findDependencyCycles(graph.deps);
+        for (const cycle of cycles) {
+            console.error(`Dependency cycle: ${cycle.join(' -> ')}`);
+        }
+        if (cycles.length > 0) {
+            console.error(DEPENDENCY_CYCLE_HINT);
+        }
+        process.exit(cycles.length > 0 ? 1 : 0);
+    }
+
+    if (env.since != null) {
+        try {
+            // Only packages changed since the ref and their dependents
+            packages = await getAffectedPackages(packages, env.since, __root, env);
+        } catch (e: unknown) {
+            const error: CommandLineError = e as unknown as CommandLineError;
+            console.error(`Unable to get changes since "${env.since}"`);
+            console.error(error?.stderr || error?.stdout || error);
+            process.exit(1);
+        }
+    }
+
+    if (env.filter != null) {
+        // Only packages matching the selectors
+        packages = filterPackages(packages, env.filter, env);
+    }
+
+    // Arguments are tasks if the first one is declared in the root package.json `monk.tasks` pipeline
+    const pipeline = env.script == null ? getPipeline(__root) : null;
 
-    // If result has errors
-    if (await runPackageCommand(env, packages, command as string, args as string[]) !== false) {
+    if (pipeline != null && Object.hasOwn(pipeline, command)) {
+        if (env.watch) {
+            console.error(`Watch mode doesn't support pipeline tasks`);
+            process.exit(1);
+        }
+        try {
+            // If result has errors
+            if (await runTaskPipeline(env, packages, pipeline, [command, ...args]) !== false) {
+                process.exit(1);
+            }
+        } catch (e: unknown) {
+            console.error((e as Error).message);
+            process.exit(1);
+        }
+    } else if (env.watch) {
+        // Initial run, then only changed packages and their dependents
+        await runPackageCommand(env, packages, command, args);
+        const watcher = watchPackageCommand(env, packages, command, args);
+        // Cancelled commands run in their own process group, they don't get the terminal signals
+        for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+            process.once(signal, () => {
+                watcher.close();
+                process.exit(130);
+            });
+        }
+    } else if (await runPackageCommand(env, packages, command, args) !== false) {
+        // If result has errors
         process.exit(1);
     }
 }
\ No newline at end of file
@@ -0,0 +1,143 @@
+import {matchGlob} from "@monk-js/utils";
+import {getDependencyTypes, getPackageDependencies, getUncheckedPackages, RunnerEnv} from "@/utils";
+import {addPackageDependencies, addPackageDependents, PackageSelection} from "@/affected";
+
+/**
+ * Package filter selector
+ */
+export type PackageSelector = {
+    /**
+     * Package name or glob
+     */
+    pattern: string,
+    /**
+     * Selector excludes matched packages (`!pkg`)
+     */
+    exclude: boolean,
+    /**
+     * Include dependencies of matched packages (`pkg...`)
+     */
+    dependencies: boolean,
+    /**
+     * Include dependents of matched packages (`...pkg`)
+     */
+    dependents: boolean
+}
+
+/**
+ * Splits a filter on commas outside of glob braces, so `@monk-js/{runner,version}` stays a single selector.
+ *
+ * @param filter Filter string.
+ */
+function splitSelectors(filter: string): string[] {
+    const values: string[] = [''];
+    let group = 0;
+    for (const char of filter) {
+        if (char === ',' && group === 0) {
+            values.push('');
+            continue;
+        }
+        if (char === '{') {
+            group++;
+        } else if (char === '}' && group > 0) {
+            group--;
+        }
+        values[values.length - 1] += char;
+    }
+    return values;
+}
+
+/**
+ * Parses a comma separated list of package selectors, e.g. `@monk-js/*,!@monk-js/version,...@monk-js/utils`.
+ * Commas inside glob braces don't separate selectors, e.g. `@monk-js/{runner,version}...`.
+ *
+ * @param filter Filter string.
+ */
+export function parsePackageSelectors(filter: string): PackageSelector[] {
+    return splitSelectors(filter)
+        .map(value => value.trim())
+        .filter(value => value !== '')
+        .map(value => {
+            const exclude = value.startsWith('!');
+            let pattern = exclude ? value.substring(1) : value;
+            const dependents = pattern.startsWith('...');
+            pattern = dependents ? pattern.substring(3) : pattern;
+            const dependencies = pattern.endsWith('...');
+            pattern = dependencies ? pattern.substring(0, pattern.length - 3) : pattern;
+
+            return {pattern, exclude, dependencies, dependents};
+        });
+}
+
+/**
+ * Selects packages matching the selector, including its dependencies or dependents if requested.
+ *
+ * @param deps Package name => workspace dependencies map.
+ * @param names Workspace package names.
+ * @param selector Package selector.
+ */
+export function selectPackages(deps: Record<string, string[]>, names: string[], selector: PackageSelector): PackageSelection {
+    const selection: PackageSelection = {};
+
+    for (const name of names) {
+        if (matchGlob(name, selector.pattern)) {
+            selection[name] = `matches "${selector.pattern}"`;
+        }
+    }
+
+    const matched = {...selection};
+    if (selector.dependencies) {
+        Object.assign(selection, addPackageDependencies(deps, {...matched}));
+    }
+    if (selector.dependents) {
+        Object.assign(selection, addPackageDependents(deps, {...matched}));
+    }
+
+    return selection;
+}
+
+/**
+ * Filters packages by selectors. Packages matching any include selector are selected
+ * (all packages if there are none), then packages matching any exclude selector are removed.
+ *
+ * @param packages Package file list.
+ * @param filter Comma separated list of package selectors.
+ * @param env Build environment.
+ * @returns Filtered package file list.
+ */
+export function filterPackages(packages: string[], filter: string, env: Partial<RunnerEnv> = {}): string[] {
+    const {files, deps} = getPackageDependencies(packages, getUncheckedPackages(env), getDependencyTypes(env));
+    const names = packages.map(file => files[file]);
+    const selectors = parsePackageSelectors(filter);
+    const includes = selectors.filter(selector => !selector.exclude);
+    let selection: PackageSelection = {};
+
+    if (includes.length === 0) {
+        for (const name of names) {
+            selection[name] = 'all packages';
+        }
+    }
+
+    for (const selector of includes) {
+        selection = {...selectPackages(deps, names, selector), ...selection};
+    }
+
+    for (const selector of selectors.filter(selector => selector.exclude)) {
+        for (const name in selectPackages(deps, names, selector)) {
+            delete selection[name];
+        }
+    }
+
+    for (const selector of selectors) {
+        if (!names.some(name => matchGlob(name, selector.pattern))) {
+            console.warn(`Filter "${selector.pattern}" doesn't match any package`);
+        }
+    }
+
+    console.log(`Packages selected by filter "${filter}": ${Object.keys(selection).length} of ${packages.length}`);
+    for (const name in selection) {
+        console.log(`Package: ${name}. Selected: ${selection[name]}`);
+    }
+
+    return packages.filter(file => Object.hasOwn(selection, files[file]));
+}
@@ -0,0 +1,144 @@
+import path from "path";
+import {DependencyType, PackageGraph} from "@/utils";
+import {findDependencyCycles} from "@/scheduler";
+
+/**
+ * Dependency graph output format
+ */
+export type GraphFormat = 'tree' | 'dot' | 'json';
+
+/**
+ * Short labels of the dependency fields, `dependencies` edges are not labeled
+ */
+const EDGE_LABELS: Record<DependencyType, string> = {
+    dependencies: '',
+    devDependencies: 'dev',
+    peerDependencies: 'peer',
+    optionalDependencies: 'optional'
+};
+
+/**
+ * Formats dependency name with its edge label, e.g. `@monk-js/bundler [dev]`.
+ *
+ * @param graph Workspace dependency graph.
+ * @param name Package name.
+ * @param dep Dependency name.
+ */
+function formatDependency(graph: PackageGraph, name: string, dep: string): string {
+    const label = EDGE_LABELS[graph.edgeTypes[name]?.[dep]];
+    return label ? `${dep} [${label}]` : dep;
+}
+
+/**
+ * Renders the graph as an ASCII tree starting from the packages no other package depends on.
+ * Already printed subtrees are marked with `(*)`, cycles with `(cycle)`.
+ *
+ * @param graph Workspace dependency graph.
+ */
+export function renderGraphTree(graph: PackageGraph): string {
+    const {deps} = graph;
+    const names = Object.keys(deps).sort();
+    const dependents = new Set(names.flatMap(name => deps[name]));
+    // Packages inside of a cycle have no root, so they are printed as roots too
+    const roots = names.filter(name => !dependents.has(name));
+    const printed = new Set<string>();
+    const lines: string[] = [];
+
+    const print = (name: string, label: string, prefix: string, childPrefix: string, path: string[]) => {
+        if (path.includes(name)) {
+            lines.push(`${prefix}${label} (cycle)`);
+            return;
+        }
+        if (printed.has(name) && deps[name].length > 0) {
+            lines.push(`${prefix}${label} (*)`);
+            return;
+        }
+        lines.push(`${prefix}${label}`);
+        printed.add(name);
+        const children = [...deps[name]].sort();
+        children.forEach((dep, index) => {
+            const last = index === children.length - 1;
+            print(dep, formatDependency(graph, name, dep), childPrefix + (last ? '└── ' : '├── '), childPrefix + (last ? '    ' : '│   '), [...path, name]);
+        });
+    };
+
+    for (const name of roots) {
+        print(name, name, '', '', []);
+    }
+    for (const name of names) {
+        if (!printed.has(name)) {
+            print(name, name, '', '', []);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Renders the graph in Graphviz DOT format. Edges point from a package to its dependency.
+ *
+ * @param graph Workspace dependency graph.
+ */
+export function renderGraphDot(graph: PackageGraph): string {
+    const quote = (value: string) => JSON.stringify(value);
+    const cycleEdges = new Set(findDependencyCycles(graph.deps)
+        .flatMap(cycle => cycle.slice(1).map((dep, index) => `${cycle[index]}\0${dep}`)));
+    const lines = ['digraph workspace {', '  rankdir=LR;', '  node [shape=box];'];
+
+    for (const name of Object.keys(graph.deps).sort()) {
+        lines.push(`  ${quote(name)};`);
+    }
+    for (const name of Object.keys(graph.deps).sort()) {
+        for (const dep of [...graph.deps[name]].sort()) {
+            const attributes: string[] = [];
+            const label = EDGE_LABELS[graph.edgeTypes[name]?.[dep]];
+            if (label) {
+                attributes.push(`label=${quote(label)}`, 'style=dashed');
+            }
+            if (cycleEdges.has(`${name}\0${dep}`)) {
+                attributes.push('color=red');
+            }
+            lines.push(`  ${quote(name)} -> ${quote(dep)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+        }
+    }
+    lines.push('}');
+
+    return lines.join('\n');
+}
+
+/**
+ * Renders the graph as JSON: packages with their paths and dependencies, and dependency cycles.
+ *
+ * @param graph Workspace dependency graph.
+ */
+export function renderGraphJson(graph: PackageGraph): string {
+    const packages = Object.keys(graph.files).map(file => {
+        const name = graph.files[file];
+        return {
+            name,
+            path: path.dirname(file),
+            dependencies: graph.deps[name].map(dep => ({name: dep, type: graph.edgeTypes[name]?.[dep] ?? 'dependencies'}))
+        };
+    });
+
+    return JSON.stringify({packages, cycles: findDependencyCycles(graph.deps)}, null, 2);
+}
+
+/**
+ * Renders the workspace dependency graph.
+ *
+ * @param graph Workspace dependency graph.
+ * @param format Output format.
+ */
+export function renderGraph(graph: PackageGraph, format: GraphFormat = 'tree'): string {
+    switch (format) {
+        case 'dot':
+            return renderGraphDot(graph);
+        case 'json':
+            return renderGraphJson(graph);
+        case 'tree':
+            return renderGraphTree(graph);
+        default:
+            throw new Error(`Unknown graph format "${format}", expected one of: tree, dot, json`);
+    }
+}
@@ -1 +1,12 @@
-export * from "@/utils";
\ No newline at end of file
+export * from "@/utils";
+export * from "@/cache";
+export * from "@/affected";
+export * from "@/filter";
+export * from "@/scheduler";
+export * from "@/output";
+export * from "@/report";
+export * from "@/scripts";
+export * from "@/watch";
+export * from "@/graph";
+export * from "@/workspace";
+export * from "@/tasks";
\ No newline at end of file
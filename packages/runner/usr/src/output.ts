@@ -0,0 +1,133 @@
+import path from "path";
+import fs from "fs";
+
+/**
+ * Package command output mode:
+ * - `errors` prints the output of failed packages only, when they finish;
+ * - `stream` prints every line live, prefixed with the package name;
+ * - `grouped` prints the whole output of a package as one block when it finishes.
+ */
+export type OutputMode = 'errors' | 'stream' | 'grouped';
+
+/**
+ * Package command output options
+ */
+export type OutputOptions = {
+    mode: OutputMode,
+    /**
+     * Directory for per-package log files
+     */
+    logDir?: string
+}
+
+/**
+ * Package command output handler
+ */
+export type PackageOutput = {
+    /**
+     * Handles a chunk of the command output
+     */
+    write: (data: string, stream: 'stdout' | 'stderr') => void,
+    /**
+     * Flushes buffered output when the command finishes
+     */
+    close: (success: boolean) => void
+}
+
+/**
+ * ANSI colors used for package name prefixes
+ */
+const PREFIX_COLORS = [36, 33, 32, 35, 34, 96, 93, 92, 95, 94];
+
+/**
+ * Checks whether ANSI colors can be used for the given stream.
+ *
+ * @param stream Output stream.
+ */
+function isColorSupported(stream: NodeJS.WriteStream): boolean {
+    return !process.env.NO_COLOR && (stream.isTTY || !!process.env.FORCE_COLOR);
+}
+
+/**
+ * Formats the package name prefix, the color is derived from the package name.
+ *
+ * @param name Package name.
+ * @param stream Output stream the prefix is written to.
+ */
+export function formatPackagePrefix(name: string, stream: NodeJS.WriteStream): string {
+    if (!isColorSupported(stream)) {
+        return `${name} |`;
+    }
+    let hash = 0;
+    for (let i = 0; i < name.length; i++) {
+        hash = (hash * 31 + name.charCodeAt(i)) >>> 0;
+    }
+    return `\x1b[${PREFIX_COLORS[hash % PREFIX_COLORS.length]}m${name} |\x1b[0m`;
+}
+
+/**
+ * Converts package name into a log file name, e.g. `@monk-js/utils` => `monk-js__utils.log`.
+ *
+ * @param name Package name.
+ */
+export function getLogFileName(name: string): string {
+    return `${name.replace(/^@/, '').replace(/[\\/]/g, '__')}.log`;
+}
+
+/**
+ * Creates output handler for a package command.
+ *
+ * @param name Package name.
+ * @param options Output options.
+ */
+export function createPackageOutput(name: string, options: OutputOptions): PackageOutput {
+    const lines: Record<string, string> = {stdout: '', stderr: ''};
+    let grouped = '';
+    let log: number | null = null;
+
+    if (options.logDir) {
+        fs.mkdirSync(options.logDir, {recursive: true});
+        log = fs.openSync(path.resolve(options.logDir, getLogFileName(name)), 'w');
+    }
+
+    // Prints complete lines, the last incomplete one stays buffered
+    const printLines = (stream: 'stdout' | 'stderr', flush: boolean) => {
+        const parts = lines[stream].split(/\r?\n/);
+        lines[stream] = parts.pop();
+        if (flush && lines[stream] !== '') {
+            parts.push(lines[stream]);
+            lines[stream] = '';
+        }
+        const target = process[stream];
+        for (const line of parts) {
+            target.write(`${formatPackagePrefix(name, target)} ${line}\n`);
+        }
+    };
+
+    return {
+        write(data, stream) {
+            if (log != null) {
+                fs.writeSync(log, data);
+            }
+            if (options.mode === 'stream') {
+                lines[stream] += data;
+                printLines(stream, false);
+            } else if (options.mode === 'grouped') {
+                grouped += data;
+            }
+        },
+        close(success) {
+            if (log != null) {
+                fs.closeSync(log);
+                log = null;
+            }
+            if (options.mode === 'stream') {
+                printLines('stdout', true);
+                printLines('stderr', true);
+            } else if (options.mode === 'grouped' && grouped !== '') {
+                const print = success ? console.log : console.error;
+                print(`Package: ${name}. Output:\n${grouped.replace(/\s+$/, '')}`);
+            }
+        }
+    };
+}
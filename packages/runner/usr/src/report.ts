@@ -0,0 +1,135 @@
+import path from "path";
+import fs from "fs";
+
+/**
+ * Package run status, `blocked` packages never started because of a dependency cycle
+ */
+export type PackageStatus = 'success' | 'failed' | 'cached' | 'skipped' | 'cancelled' | 'blocked';
+
+/**
+ * Package run report
+ */
+export type PackageReport = {
+    name: string,
+    path: string,
+    command: string,
+    status: PackageStatus,
+    /**
+     * Start time (ISO 8601), `null` if the package never started
+     */
+    start: string | null,
+    /**
+     * End time (ISO 8601), `null` if the package never started
+     */
+    end: string | null,
+    /**
+     * Duration in milliseconds
+     */
+    duration: number,
+    exitCode: number | null,
+    /**
+     * Reason the package was skipped, cancelled or blocked
+     */
+    reason?: string,
+    /**
+     * Last lines of the standard output
+     */
+    stdout: string,
+    /**
+     * Last lines of the standard error
+     */
+    stderr: string
+}
+
+/**
+ * Run report
+ */
+export type RunReport = {
+    command: string,
+    start: string,
+    end: string,
+    duration: number,
+    success: boolean,
+    /**
+     * Names of the packages on the critical path
+     */
+    criticalPath: string[],
+    packages: PackageReport[]
+}
+
+/**
+ * Returns the last lines of a command output.
+ *
+ * @param value Command output.
+ * @param lines Maximum number of lines.
+ */
+export function getOutputTail(value: string, lines = 50): string {
+    return (value ?? '').replace(/\s+$/, '').split(/\r?\n/).slice(-lines).join('\n');
+}
+
+/**
+ * Escapes special XML characters.
+ *
+ * @param value Text value.
+ */
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters are not allowed in XML 1.0
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
+
+/**
+ * Writes run report as JSON.
+ *
+ * @param file Report file path.
+ * @param report Run report.
+ */
+export function writeJsonReport(file: string, report: RunReport): void {
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, JSON.stringify(report, null, 2) + '\n');
+}
+
+/**
+ * Writes run report as JUnit XML, one test case per package.
+ *
+ * @param file Report file path.
+ * @param report Run report.
+ */
+export function writeJUnitReport(file: string, report: RunReport): void {
+    const seconds = (duration: number) => (duration / 1000).toFixed(3);
+    const failures = report.packages.filter(item => item.status === 'failed' || item.status === 'blocked').length;
+    const skipped = report.packages.filter(item => item.status === 'skipped' || item.status === 'cancelled').length;
+    const suite = `name="${escapeXml(report.command)}" tests="${report.packages.length}" failures="${failures}" skipped="${skipped}" time="${seconds(report.duration)}"`;
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites ${suite}>`,
+        `  <testsuite ${suite} timestamp="${report.start}">`
+    ];
+
+    for (const item of report.packages) {
+        lines.push(`    <testcase classname="monk-run" name="${escapeXml(item.name)}" file="${escapeXml(item.path)}" time="${seconds(item.duration)}">`);
+        if (item.status === 'failed') {
+            lines.push(`      <failure message="Exit code ${item.exitCode}">${escapeXml(item.stderr || item.stdout)}</failure>`);
+        } else if (item.status === 'blocked') {
+            lines.push(`      <failure message="${escapeXml(item.reason)}"/>`);
+        } else if (item.status === 'skipped' || item.status === 'cancelled') {
+            lines.push(`      <skipped message="${escapeXml(item.reason ?? item.status)}"/>`);
+        }
+        if (item.stdout) {
+            lines.push(`      <system-out>${escapeXml(item.stdout)}</system-out>`);
+        }
+        if (item.stderr) {
+            lines.push(`      <system-err>${escapeXml(item.stderr)}</system-err>`);
+        }
+        lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>', '</testsuites>', '');
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, lines.join('\n'));
+}
@@ -0,0 +1,234 @@
+/**
+ * Task execution timing
+ */
+export type TaskTiming = {
+    start: number,
+    end: number
+}
+
+/**
+ * Task scheduling result
+ */
+export type ScheduleResult = {
+    /**
+     * Task id => execution timing
+     */
+    timings: Record<string, TaskTiming>,
+    /**
+     * Tasks that never started because their dependencies never completed
+     */
+    pending: string[],
+    /**
+     * Failed tasks
+     */
+    failed: string[],
+    /**
+     * Task id => id of the failed task it was skipped for
+     */
+    skipped: Record<string, string>,
+    /**
+     * Tasks that were not started after the first failure in bail mode
+     */
+    cancelled: string[]
+}
+
+/**
+ * Task scheduling options
+ */
+export type ScheduleOptions = {
+    /**
+     * Maximum number of tasks running at the same time
+     */
+    concurrency: number,
+    /**
+     * Skip dependents of failed tasks
+     */
+    propagate: boolean,
+    /**
+     * Stop starting new tasks after the first failure
+     */
+    bail: boolean
+}
+
+/**
+ * Formats duration in milliseconds as seconds, e.g. `1.5s`.
+ *
+ * @param duration Duration in milliseconds.
+ */
+export function formatDuration(duration: number): string {
+    return `${(duration / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Calculates the length of the longest dependent chain for each task, used as scheduling priority.
+ *
+ * @param deps Task id => ids of the tasks it depends on
+ */
+export function getTaskHeights(deps: Record<string, string[]>): Record<string, number> {
+    const heights: Record<string, number> = {};
+    const dependents: Record<string, string[]> = {};
+
+    for (const id in deps) {
+        for (const dep of deps[id]) {
+            (dependents[dep] ??= []).push(id);
+        }
+    }
+
+    const getHeight = (id: string, path: string[]): number => {
+        // Cycles are reported by the scheduler, here they are just cut
+        if (path.includes(id)) {
+            return 0;
+        }
+        heights[id] ??= 1 + Math.max(0, ...(dependents[id] ?? []).map(dependent => getHeight(dependent, [...path, id])));
+        return heights[id];
+    };
+
+    for (const id in deps) {
+        getHeight(id, []);
+    }
+
+    return heights;
+}
+
+/**
+ * Finds dependency cycles, each cycle is reported once as a path starting and ending with the same id,
+ * e.g. `['a', 'b', 'c', 'a']`.
+ *
+ * @param deps Id => ids it depends on.
+ */
+export function findDependencyCycles(deps: Record<string, string[]>): string[][] {
+    const cycles: string[][] = [];
+    const keys = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = (id: string, path: string[]) => {
+        const index = path.indexOf(id);
+        if (index !== -1) {
+            const cycle = path.slice(index);
+            // The same cycle can be reached from any of its members
+            const key = [...cycle].sort().join('\0');
+            if (!keys.has(key)) {
+                keys.add(key);
+                cycles.push([...cycle, id]);
+            }
+            return;
+        }
+        if (visited.has(id)) {
+            return;
+        }
+        for (const dep of deps[id] ?? []) {
+            visit(dep, [...path, id]);
+        }
+        visited.add(id);
+    };
+
+    for (const id in deps) {
+        visit(id, []);
+    }
+
+    return cycles;
+}
+
+/**
+ * Runs tasks with a limited concurrency. A task starts as soon as all of its dependencies
+ * complete and a slot is free; ready tasks with the longest chain of dependents go first.
+ * A task fails when the executor resolves to `false` or rejects.
+ *
+ * @param deps Task id => ids of the tasks it depends on. Ids missing from the map are treated as completed.
+ * @param options Scheduling options.
+ * @param run Task executor.
+ */
+export async function scheduleTasks(deps: Record<string, string[]>, options: ScheduleOptions, run: (id: string) => Promise<unknown>): Promise<ScheduleResult> {
+    const heights = getTaskHeights(deps);
+    const remaining = Object.keys(deps).sort((a, b) => heights[b] - heights[a]);
+    const completed = new Set<string>();
+    const running = new Map<string, Promise<[string, boolean]>>();
+    const result: ScheduleResult = {timings: {}, pending: [], failed: [], skipped: {}, cancelled: []};
+
+    const isReady = (id: string) => deps[id].every(dep => completed.has(dep) || !Object.hasOwn(deps, dep));
+
+    // Removes all not started dependents of the failed task
+    const skipDependents = (id: string, failed: string) => {
+        for (const dependent of remaining.filter(dependent => deps[dependent].includes(id))) {
+            remaining.splice(remaining.indexOf(dependent), 1);
+            result.skipped[dependent] = failed;
+            skipDependents(dependent, failed);
+        }
+    };
+
+    while (remaining.length > 0 || running.size > 0) {
+        // Fill every free slot with ready tasks
+        for (let i = 0; i < remaining.length && running.size < options.concurrency;) {
+            const id = remaining[i];
+            if (!isReady(id)) {
+                i++;
+                continue;
+            }
+            remaining.splice(i, 1);
+            result.timings[id] = {start: Date.now(), end: 0};
+            running.set(id, run(id).then(value => [id, value !== false], () => [id, false]));
+        }
+
+        // Nothing is running and nothing can start
+        if (running.size === 0) {
+            break;
+        }
+
+        const [finished, success] = await Promise.race(running.values());
+        running.delete(finished);
+        result.timings[finished].end = Date.now();
+        completed.add(finished);
+
+        if (!success) {
+            result.failed.push(finished);
+            if (options.bail) {
+                result.cancelled.push(...remaining.splice(0));
+            } else if (options.propagate) {
+                skipDependents(finished, finished);
+            }
+        }
+    }
+
+    result.pending = remaining;
+    return result;
+}
+
+/**
+ * Finds the critical path, the chain of dependent tasks with the longest total duration.
+ *
+ * @param deps Task id => ids of the tasks it depends on.
+ * @param timings Task id => execution timing.
+ * @returns Task ids from the first to the last task of the chain.
+ */
+export function getCriticalPath(deps: Record<string, string[]>, timings: Record<string, TaskTiming>): string[] {
+    const paths: Record<string, { duration: number, path: string[] }> = {};
+
+    const getPath = (id: string): { duration: number, path: string[] } => {
+        if (!paths[id]) {
+            let longest = {duration: 0, path: [] as string[]};
+            for (const dep of deps[id] ?? []) {
+                if (Object.hasOwn(timings, dep)) {
+                    const depPath = getPath(dep);
+                    if (depPath.duration > longest.duration) {
+                        longest = depPath;
+                    }
+                }
+            }
+            paths[id] = {
+                duration: longest.duration + timings[id].end - timings[id].start,
+                path: [...longest.path, id]
+            };
+        }
+        return paths[id];
+    };
+
+    let critical = {duration: 0, path: [] as string[]};
+    for (const id in timings) {
+        const path = getPath(id);
+        if (path.duration >= critical.duration) {
+            critical = path;
+        }
+    }
+
+    return critical.path;
+}
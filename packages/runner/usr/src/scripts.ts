@@ -0,0 +1,67 @@
+import path from "path";
+import fs from "fs";
+
+/**
+ * Package.json scripts
+ */
+export type PackageScripts = Record<string, string>;
+
+/**
+ * Lists `node_modules/.bin` directories from the package directory up to the file system root,
+ * the same way package managers do for scripts.
+ *
+ * @param directory Package directory.
+ */
+export function getBinPaths(directory: string): string[] {
+    const paths: string[] = [];
+    let current = path.resolve(directory);
+
+    for (;;) {
+        const bin = path.resolve(current, 'node_modules', '.bin');
+        if (fs.existsSync(bin)) {
+            paths.push(bin);
+        }
+        const parent = path.dirname(current);
+        if (parent === current) {
+            break;
+        }
+        current = parent;
+    }
+
+    return paths;
+}
+
+/**
+ * Creates environment variables for a package script: `node_modules/.bin` directories are added to `PATH`
+ * and the `npm_lifecycle_event`, `npm_package_name` and `npm_package_version` variables are set.
+ *
+ * @param directory Package directory.
+ * @param script Script name.
+ * @param name Package name.
+ * @param version Package version.
+ */
+export function getScriptEnv(directory: string, script: string, name: string, version: string): NodeJS.ProcessEnv {
+    const pathKey = Object.keys(process.env).find(key => key.toUpperCase() === 'PATH') ?? 'PATH';
+
+    return {
+        ...process.env,
+        [pathKey]: [...getBinPaths(directory), process.env[pathKey]].filter(Boolean).join(path.delimiter),
+        npm_lifecycle_event: script,
+        npm_package_name: name,
+        npm_package_version: version
+    };
+}
+
+/**
+ * Lists script names to run for a script, including its `pre` and `post` hooks if defined.
+ *
+ * @param scripts Package scripts.
+ * @param script Script name.
+ * @returns Script names in execution order, or an empty array if the script is missing.
+ */
+export function getScriptLifecycle(scripts: PackageScripts | undefined, script: string): string[] {
+    if (!scripts || !Object.hasOwn(scripts, script)) {
+        return [];
+    }
+    return [`pre${script}`, script, `post${script}`].filter(name => Object.hasOwn(scripts, name));
+}
@@ -0,0 +1,249 @@
+import path from "path";
+import fs from "fs";
+import {cpus} from "node:os";
+import {getSuggestion} from "@monk-js/utils";
+import {
+    CommandExecutionError,
+    createRunReport,
+    executeCachedPackageCommand,
+    executePackageTask,
+    getDependencyTypes,
+    getPackageDependencies,
+    getUncheckedPackages,
+    PackageCommandResult,
+    PackageGraph,
+    printScheduleSummary,
+    RunnerEnv
+} from "@/utils";
+import {OutputOptions} from "@/output";
+import {scheduleTasks} from "@/scheduler";
+import {DEFAULT_CACHE_DIR} from "@/cache";
+import {writeJsonReport, writeJUnitReport} from "@/report";
+
+/**
+ * Pipeline task, run as the package.json script of the same name
+ */
+export type PipelineTask = {
+    /**
+     * Tasks completed first: `task` of the same package, `^task` of the workspace dependencies, `pkg#task` of a package
+     */
+    dependsOn?: string[],
+    /**
+     * Globs of files affecting the result, for the build cache
+     */
+    inputs?: string[],
+    /**
+     * Globs of files produced by the task, for the build cache
+     */
+    outputs?: string[],
+    /**
+     * Environment variables of the task, they are part of the cache hash
+     */
+    env?: Record<string, string>
+}
+
+/**
+ * Pipeline tasks by name
+ */
+export type Pipeline = Record<string, PipelineTask>;
+
+/**
+ * Root package.json `monk` field
+ */
+export type MonkConfig = {
+    tasks?: Pipeline
+}
+
+/**
+ * Package task of the task graph
+ */
+export type TaskNode = {
+    /**
+     * Task id, e.g. `@monk-js/runner#bundle`
+     */
+    id: string,
+    name: string,
+    task: string,
+    /**
+     * package.json file path
+     */
+    file: string
+}
+
+/**
+ * Cross-package task graph
+ */
+export type TaskGraph = {
+    nodes: Record<string, TaskNode>,
+    /**
+     * Task id => ids of the tasks it depends on
+     */
+    deps: Record<string, string[]>
+}
+
+/**
+ * Reads the task pipeline from the root package.json `monk.tasks` field.
+ *
+ * @param root Workspace root directory.
+ * @returns Pipeline, or `null` if the root package.json doesn't declare tasks.
+ */
+export function getPipeline(root: string): Pipeline | null {
+    const file = path.resolve(root, 'package.json');
+    if (!fs.existsSync(file)) {
+        return null;
+    }
+    const config: MonkConfig | undefined = JSON.parse(fs.readFileSync(file, 'utf-8')).monk;
+
+    return config?.tasks != null && Object.keys(config.tasks).length > 0 ? config.tasks : null;
+}
+
+/**
+ * Builds the graph of the requested tasks in every package, with every task they depend on.
+ *
+ * @param pipeline Pipeline tasks.
+ * @param graph Workspace dependency graph.
+ * @param tasks Requested task names.
+ * @throws Error if a task or a package is unknown.
+ */
+export function getTaskGraph(pipeline: Pipeline, graph: PackageGraph, tasks: string[]): TaskGraph {
+    const packageFiles = Object.fromEntries(Object.entries(graph.files).map(([file, name]) => [name, file]));
+    const nodes: Record<string, TaskNode> = {};
+    const deps: Record<string, string[]> = {};
+
+    const checkTask = (task: string, source: string) => {
+        if (!Object.hasOwn(pipeline, task)) {
+            const suggestion = getSuggestion(task, Object.keys(pipeline));
+            throw new Error(`Unknown task "${task}"${source}${suggestion != null ? `. Did you mean ${suggestion}?` : ''}`);
+        }
+    };
+
+    const addTask = (name: string, task: string): string => {
+        const id = `${name}#${task}`;
+        if (Object.hasOwn(nodes, id)) {
+            return id;
+        }
+        nodes[id] = {id, name, task, file: packageFiles[name]};
+        deps[id] = [];
+
+        for (const dependency of pipeline[task].dependsOn ?? []) {
+            const separator = dependency.lastIndexOf('#');
+            const depPackage = separator > 0 ? dependency.substring(0, separator) : null;
+            const depTask = dependency.substring(separator + 1).replace(/^\^/, '');
+            checkTask(depTask, ` in dependsOn of task "${task}"`);
+
+            if (dependency.startsWith('^')) {
+                deps[id].push(...graph.deps[name].map(dep => addTask(dep, depTask)));
+            } else if (depPackage != null) {
+                if (!Object.hasOwn(packageFiles, depPackage)) {
+                    throw new Error(`Unknown package "${depPackage}" in dependsOn of task "${task}"`);
+                }
+                deps[id].push(addTask(depPackage, depTask));
+            } else {
+                deps[id].push(addTask(name, depTask));
+            }
+        }
+        deps[id] = [...new Set(deps[id])].filter(dep => dep !== id);
+        return id;
+    };
+
+    for (const task of tasks) {
+        checkTask(task, '');
+        for (const name of Object.values(graph.files)) {
+            addTask(name, task);
+        }
+    }
+
+    return {nodes, deps};
+}
+
+/**
+ * Runs pipeline tasks in every package, the whole cross-package task graph is scheduled at once.
+ * A task starts as soon as the tasks it depends on complete, packages without the task script are skipped.
+ *
+ * @param env Build environment.
+ * @param packages Package file list.
+ * @param pipeline Pipeline tasks.
+ * @param tasks Requested task names.
+ * @param signal Signal to cancel running tasks.
+ * @returns `false` if no errors occurred, or error code or an array of command error objects if errors were encountered.
+ * @throws Error if a task or a package is unknown.
+ */
+export async function runTaskPipeline(env: Partial<RunnerEnv>, packages: string[], pipeline: Pipeline, tasks: string[], signal?: AbortSignal): Promise<false | number | CommandExecutionError[]> {
+    const maxThreads = env.concurrency > 0 ? env.concurrency : Math.max(Math.round(cpus().length / 2), 2);
+    const graph = getPackageDependencies(packages, getUncheckedPackages(env), getDependencyTypes(env));
+    const {nodes, deps} = getTaskGraph(pipeline, graph, tasks);
+    const ids = Object.keys(nodes);
+
+    console.log(`Running tasks "${tasks.join(' ')}" using max threads: ${maxThreads}`);
+    console.log(`Packages: ${packages.length}. Tasks: ${ids.length}`);
+
+    const output: OutputOptions = {
+        mode: env.outputMode ?? 'errors',
+        logDir: env.logDir ? path.resolve(env.logDir) : undefined
+    };
+
+    const errors: CommandExecutionError[] = [];
+    const hashes: Record<string, string> = {};
+    const results: Record<string, PackageCommandResult> = {};
+    const started = new Date();
+    let processed = 0;
+
+    const execute = (node: TaskNode): Promise<PackageCommandResult> => {
+        const task = pipeline[node.task];
+        const taskEnv = task.env ?? {};
+        const run = (file: string, output: OutputOptions) => executePackageTask(errors, node.task, taskEnv, file, output, signal);
+        if (!env.cache) {
+            return run(node.file, output);
+        }
+        return executeCachedPackageCommand(run, hashes, deps, {
+            cacheDir: path.resolve(env.cacheDir ?? DEFAULT_CACHE_DIR),
+            inputs: task.inputs ?? env.inputs?.split(',') ?? ['**'],
+            outputs: task.outputs ?? env.outputs?.split(',') ?? ['dist/**'],
+        }, 'task', [node.task, ...Object.entries(taskEnv).sort().map(([key, value]) => `${key}=${value}`)], node.file, output, node.id);
+    };
+
+    const schedule = await scheduleTasks(deps, {
+        concurrency: maxThreads,
+        propagate: !env.continue,
+        bail: env.bail ?? false
+    }, async (id: string) => {
+        // Cancelled run doesn't start new tasks
+        if (signal?.aborted) {
+            return false;
+        }
+        console.log(`Processing tasks: ${++processed} of ${ids.length}`);
+        results[id] = await execute(nodes[id]);
+        return results[id].code === 0;
+    });
+
+    if (signal?.aborted) {
+        console.log(`Process cancelled.`);
+        return 130;
+    }
+
+    const criticalPath = printScheduleSummary(schedule, deps, id => id, deps);
+
+    if (env.report || env.junit) {
+        const reportTasks = ids.map(id => ({id, name: id, path: path.dirname(nodes[id].file), command: nodes[id].task}));
+        const report = createRunReport(tasks.join(' '), started, reportTasks, results, schedule, criticalPath ?? [], criticalPath != null && errors.length === 0);
+        if (env.report) {
+            writeJsonReport(path.resolve(env.report), report);
+        }
+        if (env.junit) {
+            writeJUnitReport(path.resolve(env.junit), report);
+        }
+    }
+
+    // If some tasks depend on each other, they never start
+    if (criticalPath == null) {
+        return 1;
+    }
+
+    if (errors.length > 0) {
+        console.error(`Errors encountered during tasks ${tasks.join(' ')}:`, errors.length);
+        return errors;
+    }
+
+    console.log(`Process completed successfully.`);
+    return false;
+}
\ No newline at end of file
@@ -2,6 +2,12 @@ import path from "path";
 import fs from "fs";
 import {cpus} from "node:os";
 import {spawn, SpawnOptions} from "node:child_process";
+import {createPackageOutput, OutputMode, OutputOptions} from "@/output";
+import {getOutputTail, PackageStatus, RunReport, writeJsonReport, writeJUnitReport} from "@/report";
+import {GraphFormat} from "@/graph";
+import {getScriptEnv, getScriptLifecycle, PackageScripts} from "@/scripts";
+import {findDependencyCycles, formatDuration, getCriticalPath, ScheduleResult, scheduleTasks} from "@/scheduler";
+import {CacheOptions, DEFAULT_CACHE_DIR, getPackageHash, restorePackageCache, savePackageCache} from "@/cache";
 
 /**
  * Error that occurs during the execution of a command-line process.
@@ -19,23 +25,97 @@ export type CommandExecutionError = {
     error: CommandLineError;
 };
 
+/**
+ * Result of a package command execution
+ */
+export type PackageCommandResult = {
+    stdout: string,
+    stderr: string,
+    code: number,
+    /**
+     * Outputs were restored from the build cache
+     */
+    cached: boolean,
+    /**
+     * Reason the package was skipped without running anything
+     */
+    skipped?: string
+}
+
 /**
  * Package JSON file
  */
 export interface PackageJson {
     name: string;
     version: string;
+    scripts?: PackageScripts;
     dependencies?: Record<string, string>;
     devDependencies?: Record<string, string>;
+    peerDependencies?: Record<string, string>;
+    optionalDependencies?: Record<string, string>;
 }
 
+/**
+ * package.json dependency field
+ */
+export type DependencyType = 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies';
+
+/**
+ * All package.json dependency fields
+ */
+export const DEPENDENCY_TYPES: DependencyType[] = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+/**
+ * How to run a workspace with a dependency cycle, devDependencies are followed by default
+ */
+export const DEPENDENCY_CYCLE_HINT = 'Ignore the dependencies of a package in the cycle with --uncheck <name>, or devDependencies with --dev false';
+
 /**
  * Runner command environment
  */
 export type RunnerEnv = {
     root: string,
     uncheck: boolean | string,
-    packages: string
+    packages: string,
+    cache: boolean,
+    cacheDir: string,
+    inputs: string,
+    outputs: string,
+    since: string,
+    filter: string,
+    concurrency: number,
+    bail: boolean,
+    continue: boolean,
+    outputMode: OutputMode,
+    logDir: string,
+    report: string,
+    junit: string,
+    script: string,
+    ifPresent: boolean,
+    watch: boolean,
+    debounce: number,
+    format: GraphFormat,
+    dev: boolean,
+    peer: boolean,
+    optional: boolean
+}
+
+/**
+ * Workspace packages dependency graph
+ */
+export type PackageGraph = {
+    /**
+     * package.json file path => package name
+     */
+    files: Record<string, string>,
+    /**
+     * Package name => names of the workspace packages it depends on
+     */
+    deps: Record<string, string[]>,
+    /**
+     * Package name => dependency name => package.json field the dependency is declared in
+     */
+    edgeTypes: Record<string, Record<string, DependencyType>>
 }
 
 /**
@@ -43,10 +123,29 @@ export type RunnerEnv = {
  *
  * @param command The command to be executed.
  * @param args An array of string arguments passed to the command.
- * @param options Options to configure the spawn behavior.
+ * @param options Options to configure the spawn behavior, the `signal` terminates the process with its children.
+ * @param onData Optional callback receiving output chunks as they arrive.
  */
-export function processSpawn(command: string, args: string[], options: SpawnOptions): Promise<string | CommandLineError> {
-    const child = spawn(command, args, options);
+export function processSpawn(command: string, args: string[], options: SpawnOptions, onData?: (data: string, stream: 'stdout' | 'stderr') => void): Promise<string | CommandLineError> {
+    const {signal, ...spawnOptions} = options;
+    // Shell commands start their own processes, the whole process group is terminated on abort
+    const groupKill = signal != null && process.platform !== 'win32';
+    const child = spawn(command, args, groupKill ? {...spawnOptions, detached: true} : options);
+    if (groupKill) {
+        const abort = () => {
+            try {
+                process.kill(-child.pid, 'SIGTERM');
+            } catch {
+                // The process has already exited
+            }
+        };
+        if (signal.aborted) {
+            abort();
+        } else {
+            signal.addEventListener('abort', abort, {once: true});
+            child.on('close', () => signal.removeEventListener('abort', abort));
+        }
+    }
     let stdout = '';
     let stderr = '';
 
@@ -56,9 +155,11 @@ export function processSpawn(command: string, args: string[], options: SpawnOpti
 
     handleStream(child.stdout, data => {
         stdout += data;
+        onData?.(data, 'stdout');
     });
     handleStream(child.stderr, data => {
         stderr += data;
+        onData?.(data, 'stderr');
     });
 
     return new Promise((resolve, reject) => {
@@ -74,130 +175,464 @@ export function processSpawn(command: string, args: string[], options: SpawnOpti
 }
 
 /**
- * Builds package
+ * Resolves the name of the package a dependency refers to. Aliases like `npm:pkg@^1.0.0`
+ * and `workspace:pkg@*` refer to another package name.
+ *
+ * @param name Dependency name.
+ * @param range Dependency version range.
+ */
+export function getDependencyTarget(name: string, range: string): string {
+    const alias = /^(?:npm|workspace):((?:@[^/@]+\/)?[^@]+)@/.exec(range ?? '');
+    return alias ? alias[1] : name;
+}
+
+/**
+ * Scans package dependencies and builds the workspace dependency graph.
+ * Only dependencies on packages from the list are taken into account.
+ *
+ * @param packages Package file list.
+ * @param uncheck `true` to skip the scan, or list of package names whose dependencies are ignored.
+ * @param types package.json dependency fields to scan.
+ */
+export function getPackageDependencies(packages: string[], uncheck: true | string[] = [], types: DependencyType[] = DEPENDENCY_TYPES): PackageGraph {
+    const files: Record<string, string> = {};
+    const deps: Record<string, string[]> = {};
+    const edgeTypes: Record<string, Record<string, DependencyType>> = {};
+
+    const packageInfos: Record<string, PackageJson> = {};
+    for (const file of packages) {
+        packageInfos[file] = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        // Save package file => package name alias
+        files[file] = packageInfos[file].name;
+        deps[files[file]] = [];
+        edgeTypes[files[file]] = {};
+    }
+
+    if (uncheck === true) {
+        return {files, deps, edgeTypes};
+    }
+
+    for (const file of packages) {
+        const packageInfo = packageInfos[file];
+        if (uncheck.includes(packageInfo.name)) {
+            continue;
+        }
+        for (const type of types) {
+            for (const [name, range] of Object.entries(packageInfo[type] ?? {})) {
+                const target = getDependencyTarget(name, range);
+                // If package exists in other package dependencies
+                if (target !== packageInfo.name && Object.hasOwn(deps, target) && !deps[packageInfo.name].includes(target)) {
+                    deps[packageInfo.name].push(target);
+                    edgeTypes[packageInfo.name][target] = type;
+                }
+            }
+        }
+    }
+
+    return {files, deps, edgeTypes};
+}
+
+/**
+ * Lists package.json dependency fields enabled in the environment, all of them by default.
+ *
+ * @param env Build environment.
+ */
+export function getDependencyTypes(env: Partial<RunnerEnv>): DependencyType[] {
+    return DEPENDENCY_TYPES.filter(type => {
+        switch (type) {
+            case 'devDependencies':
+                return env.dev !== false;
+            case 'peerDependencies':
+                return env.peer !== false;
+            case 'optionalDependencies':
+                return env.optional !== false;
+            default:
+                return true;
+        }
+    });
+}
+
+/**
+ * Runs package processes one by one, stops at the first failure.
  *
  * @param errors Errors array
- * @param command Command
- * @param args Command arguments
  * @param file package.json file path
+ * @param name Package name
+ * @param commands List of commands with arguments
+ * @param options Spawn options, the `signal` aborts the running process
+ * @param output Output options
  */
-export async function executePackageCommand(errors: CommandExecutionError[], command: string, args: string[], file: string) {
+async function spawnPackageProcesses(errors: CommandExecutionError[], file: string, name: string, commands: [string, string[]][], options: SpawnOptions, output: OutputOptions): Promise<PackageCommandResult> {
     const buildDirectory = path.dirname(file);
+    const packageOutput = createPackageOutput(name, output);
+    let stdout = '';
+    let stderr = '';
 
     try {
-        const targetDir = path.resolve(buildDirectory);
-        const packageInfo: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
-        console.log(`Package: ${packageInfo.name}. Starting...`);
-        await processSpawn(command, args, {
-            cwd: targetDir,
-            shell: true
-        });
-        console.log(`Package: ${packageInfo.name}. Successful!`);
+        console.log(`Package: ${name}. Starting...`);
+        for (const [command, args] of commands) {
+            await processSpawn(command, args, options, (data, stream) => {
+                if (stream === 'stderr') {
+                    stderr += data;
+                } else {
+                    stdout += data;
+                }
+                packageOutput.write(data, stream);
+            });
+        }
+        packageOutput.close(true);
+        console.log(`Package: ${name}. Successful!`);
+        return {stdout, stderr, code: 0, cached: false};
     } catch (e: unknown) {
         const error: CommandLineError = e as unknown as CommandLineError;
+        packageOutput.close(false);
+        if (options.signal?.aborted) {
+            console.log(`Package: ${name}. Cancelled.`);
+            return {stdout, stderr, code: 130, cached: false};
+        }
         console.error(`Package: ${buildDirectory}. ERROR!`);
-        console.error(error?.stderr || error?.stdout || error);
+        // Command output has been already printed in other modes
+        if (output.mode === 'errors' || typeof error?.code !== 'number') {
+            console.error(error?.stderr || error?.stdout || error);
+        }
         errors.push({file: buildDirectory, error});
+        return {
+            stdout,
+            stderr: typeof error?.code === 'number' ? stderr : String(error),
+            code: typeof error?.code === 'number' ? error.code : 1,
+            cached: false
+        };
+    }
+}
+
+/**
+ * Builds package
+ *
+ * @param errors Errors array
+ * @param command Command
+ * @param args Command arguments
+ * @param file package.json file path
+ * @param output Output options
+ * @param signal Signal to cancel the command
+ */
+export async function executePackageCommand(errors: CommandExecutionError[], command: string, args: string[], file: string, output: OutputOptions = {mode: 'errors'}, signal?: AbortSignal): Promise<PackageCommandResult> {
+    const packageInfo: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+    return spawnPackageProcesses(errors, file, packageInfo.name, [[command, args]], {
+        cwd: path.resolve(path.dirname(file)),
+        shell: true,
+        signal
+    }, output);
+}
+
+/**
+ * Runs a package.json script with its `pre` and `post` hooks. Arguments are passed to the script itself only.
+ *
+ * @param errors Errors array
+ * @param script Script name
+ * @param args Script arguments
+ * @param ifPresent Skip the package instead of failing if the script is missing
+ * @param file package.json file path
+ * @param output Output options
+ * @param signal Signal to cancel the script
+ */
+export async function executePackageScript(errors: CommandExecutionError[], script: string, args: string[], ifPresent: boolean, file: string, output: OutputOptions = {mode: 'errors'}, signal?: AbortSignal): Promise<PackageCommandResult> {
+    const packageInfo: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const lifecycle = getScriptLifecycle(packageInfo.scripts, script);
+
+    if (lifecycle.length === 0) {
+        if (ifPresent) {
+            console.log(`Package: ${packageInfo.name}. No "${script}" script, skipped.`);
+            return {stdout: '', stderr: '', code: 0, cached: false, skipped: `no "${script}" script`};
+        }
+        const error: CommandLineError = {stdout: '', stderr: `Missing script: "${script}"`, code: 1};
+        console.error(`Package: ${path.dirname(file)}. ERROR!`);
+        console.error(error.stderr);
+        errors.push({file: path.dirname(file), error});
+        return {...error, cached: false};
+    }
+
+    const directory = path.resolve(path.dirname(file));
+
+    return spawnPackageProcesses(errors, file, packageInfo.name, lifecycle.map(name => [packageInfo.scripts[name], name === script ? args : []]), {
+        cwd: directory,
+        shell: true,
+        env: getScriptEnv(directory, script, packageInfo.name, packageInfo.version),
+        signal
+    }, output);
+}
+
+/**
+ * Runs a pipeline task: the package.json script of the same name with its `pre` and `post` hooks.
+ * Packages without the script are skipped, the task is completed for them.
+ *
+ * @param errors Errors array
+ * @param task Task name
+ * @param taskEnv Environment variables of the task
+ * @param file package.json file path
+ * @param output Output options
+ * @param signal Signal to cancel the task
+ */
+export async function executePackageTask(errors: CommandExecutionError[], task: string, taskEnv: Record<string, string>, file: string, output: OutputOptions = {mode: 'errors'}, signal?: AbortSignal): Promise<PackageCommandResult> {
+    const packageInfo: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const lifecycle = getScriptLifecycle(packageInfo.scripts, task);
+
+    if (lifecycle.length === 0) {
+        return {stdout: '', stderr: '', code: 0, cached: false, skipped: `no "${task}" script`};
+    }
+
+    const directory = path.resolve(path.dirname(file));
+
+    return spawnPackageProcesses(errors, file, `${packageInfo.name}#${task}`, lifecycle.map(name => [packageInfo.scripts[name], []]), {
+        cwd: directory,
+        shell: true,
+        env: {...getScriptEnv(directory, task, packageInfo.name, packageInfo.version), ...taskEnv},
+        signal
+    }, output);
+}
+
+/**
+ * Builds package using the build cache. On a cache hit the command is skipped
+ * and the recorded outputs are restored.
+ *
+ * @param execute Package command executor
+ * @param hashes Package name (or task key) => hash map, filled as packages are processed
+ * @param deps Package name (or task key) => workspace dependencies map
+ * @param options Cache options
+ * @param command Command, used for the package hash
+ * @param args Command arguments, used for the package hash
+ * @param file package.json file path
+ * @param output Output options
+ * @param key Key of the package in the hashes and dependencies maps, e.g. a pipeline task id, the package name by default
+ */
+export async function executeCachedPackageCommand(execute: (file: string, output: OutputOptions) => Promise<PackageCommandResult>, hashes: Record<string, string>, deps: Record<string, string[]>, options: CacheOptions, command: string, args: string[], file: string, output: OutputOptions = {mode: 'errors'}, key?: string): Promise<PackageCommandResult> {
+    const packageInfo: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    key ??= packageInfo.name;
+    const packageDeps = deps[key] ?? [];
+
+    // Dependency without hash has failed, so the package can't be cached
+    if (packageDeps.some(dep => !Object.hasOwn(hashes, dep))) {
+        return execute(file, output);
+    }
+
+    const hash = getPackageHash(file, command, args, packageDeps.map(dep => hashes[dep]), options);
+    const manifest = restorePackageCache(file, hash, options);
+
+    if (manifest) {
+        console.log(`Package: ${key}. Restored from cache (${hash.substring(0, 12)}).`);
+        hashes[key] = hash;
+        return {stdout: manifest.stdout, stderr: '', code: 0, cached: true};
+    }
+
+    const result = await execute(file, output);
+    if (result.code === 0) {
+        // Skipped package has no outputs, but its dependents can still be cached
+        if (!result.skipped) {
+            savePackageCache(file, packageInfo.name, hash, result.stdout, options);
+        }
+        hashes[key] = hash;
     }
+    return result;
+}
+
+/**
+ * Parses the `uncheck` option: `true` or `*` skips the dependency scan, otherwise it's a comma separated list
+ * of package names whose dependencies are ignored.
+ *
+ * @param env Build environment.
+ */
+export function getUncheckedPackages(env: Partial<RunnerEnv>): true | string[] {
+    if (env.uncheck === true || env.uncheck === '*') {
+        return true;
+    }
+    return typeof env.uncheck === 'string' ? env.uncheck.split(',') : [];
+}
+
+/**
+ * Prints tasks skipped due to failures, tasks not started in bail mode, deadlocked tasks with
+ * the dependency cycles, and the critical path of a run.
+ *
+ * @param schedule Scheduling result.
+ * @param deps Task id => ids of the tasks it depends on.
+ * @param label Task name by id, e.g. package name by package.json file.
+ * @param cycleDeps Dependency graph by task names, searched for cycles on deadlock.
+ * @returns Critical path task ids, or `null` if some tasks never started because of a deadlock.
+ */
+export function printScheduleSummary(schedule: ScheduleResult, deps: Record<string, string[]>, label: (id: string) => string, cycleDeps: Record<string, string[]>): string[] | null {
+    const {timings, pending, skipped, cancelled} = schedule;
+
+    for (const id in skipped) {
+        console.error(`Package: ${label(id)}. Skipped due to failure of ${label(skipped[id])}`);
+    }
+    if (cancelled.length > 0) {
+        console.error(`Packages not started after the first failure: ${cancelled.map(label).join(', ')}`);
+    }
+
+    if (pending.length > 0) {
+        console.error(`Deadlock found for packages: ${pending.map(label).join(', ')}`);
+        for (const cycle of findDependencyCycles(cycleDeps)) {
+            console.error(`Dependency cycle: ${cycle.join(' -> ')}`);
+        }
+        console.error(DEPENDENCY_CYCLE_HINT);
+        return null;
+    }
+
+    const criticalPath = getCriticalPath(deps, timings);
+    if (criticalPath.length > 0) {
+        const duration = (id: string) => formatDuration(timings[id].end - timings[id].start);
+        const total = criticalPath.reduce((sum, id) => sum + timings[id].end - timings[id].start, 0);
+        console.log(`Critical path (${formatDuration(total)}): ${criticalPath.map(id => `${label(id)} (${duration(id)})`).join(' -> ')}`);
+    }
+    return criticalPath;
+}
+
+/**
+ * Creates the run report.
+ *
+ * @param command Command line of the run.
+ * @param started Run start time.
+ * @param tasks Reported tasks: id, name, package directory and command.
+ * @param results Task id => command result, missing for tasks that never started.
+ * @param schedule Scheduling result.
+ * @param criticalPath Critical path task ids, empty if the run stopped on a dependency cycle.
+ * @param success Whether the run completed without errors.
+ */
+export function createRunReport(command: string, started: Date, tasks: { id: string, name: string, path: string, command: string }[], results: Record<string, PackageCommandResult>, schedule: ScheduleResult, criticalPath: string[], success: boolean): RunReport {
+    const {timings, pending, skipped, cancelled} = schedule;
+    const names = Object.fromEntries(tasks.map(task => [task.id, task.name]));
+
+    return {
+        command,
+        start: started.toISOString(),
+        end: new Date().toISOString(),
+        duration: Date.now() - started.getTime(),
+        success,
+        criticalPath: criticalPath.map(id => names[id]),
+        packages: tasks.map(task => {
+            const result = results[task.id];
+            const timing = timings[task.id];
+            let status: PackageStatus = result?.code === 0 ? (result.cached ? 'cached' : 'success') : 'failed';
+            let reason: string | undefined;
+            if (result?.skipped) {
+                status = 'skipped';
+                reason = result.skipped;
+            } else if (Object.hasOwn(skipped, task.id)) {
+                status = 'skipped';
+                reason = `skipped due to failure of ${names[skipped[task.id]]}`;
+            } else if (cancelled.includes(task.id)) {
+                status = 'cancelled';
+                reason = 'not started after the first failure';
+            } else if (pending.includes(task.id)) {
+                status = 'blocked';
+                reason = 'not started, waiting on a dependency cycle';
+            }
+            return {
+                name: task.name,
+                path: task.path,
+                command: task.command,
+                status,
+                start: timing ? new Date(timing.start).toISOString() : null,
+                end: timing ? new Date(timing.end).toISOString() : null,
+                duration: timing ? timing.end - timing.start : 0,
+                exitCode: result?.code ?? null,
+                reason,
+                stdout: getOutputTail(result?.stdout),
+                stderr: getOutputTail(result?.stderr)
+            };
+        })
+    };
 }
 
 /**
  * Executes a specified package command in parallel with a limited number of threads.
+ * A package starts as soon as all of its workspace dependencies complete. Dependents of a failed package
+ * are skipped, unless `env.continue` is set; `env.bail` stops starting new packages after the first failure.
  *
  * @param env Build environment.
  * @param packages Package file list.
- * @param command The process to execute.
+ * @param command The process to execute, or the package.json script name if `env.script` is set.
  * @param args An array of arguments to be passed to the command.
+ * @param signal Signal to cancel running commands.
  * @returns `false` if no errors occurred, or error code or an array of command error objects if errors were encountered.
  */
-export async function runPackageCommand(env: Partial<RunnerEnv>, packages: string[], command: string, args: string[]): Promise<false | number | CommandExecutionError[]> {
+export async function runPackageCommand(env: Partial<RunnerEnv>, packages: string[], command: string, args: string[], signal?: AbortSignal): Promise<false | number | CommandExecutionError[]> {
     /**
      * Maximum number of threads available for processing.
-     * It is calculated as half of the number of CPU cores (rounded) or a minimum of 2 threads.
+     * Unless set explicitly, it is calculated as half of the number of CPU cores (rounded) or a minimum of 2 threads.
      */
-    const maxThreads = Math.max(Math.round(cpus().length / 2), 2);
+    const maxThreads = env.concurrency > 0 ? env.concurrency : Math.max(Math.round(cpus().length / 2), 2);
 
-    console.log(`Running "${command} ${args.join(' ')}" using max threads: ${maxThreads}`);
+    console.log(`Running ${env.script != null ? 'script ' : ''}"${command} ${args.join(' ')}" using max threads: ${maxThreads}`);
 
     console.log(`Packages: ${packages.length}`);
 
     let processedFiles = 0;
-    const packagesCopy = [...packages];
 
-    const files: Record<string, string> = {};
+    const {files, deps} = getPackageDependencies(packages, getUncheckedPackages(env), getDependencyTypes(env));
 
-    const deps: Record<string, string[]> = {};
+    // Package file => package files it depends on
+    const fileDeps: Record<string, string[]> = {};
+    for (const file of packages) {
+        fileDeps[file] = deps[files[file]].map(name => packages.find(dep => files[dep] === name));
+    }
 
-    let uncheck: boolean | string[] = [];
+    const output: OutputOptions = {
+        mode: env.outputMode ?? 'errors',
+        logDir: env.logDir ? path.resolve(env.logDir) : undefined
+    };
 
-    // Process uncheck package list
-    if (env.uncheck === true || env.uncheck === '*') {
-        uncheck = true;
-    } else if (typeof env.uncheck === 'string') {
-        uncheck = env.uncheck.split(',');
-    }
+    const errors: CommandExecutionError[] = [];
+    const execute = env.script != null
+        ? (file: string, output: OutputOptions) => executePackageScript(errors, command, args, env.ifPresent ?? false, file, output, signal)
+        : (file: string, output: OutputOptions) => executePackageCommand(errors, command, args, file, output, signal);
+    const buildCommand = env.cache
+        ? executeCachedPackageCommand.bind(null, execute, {}, structuredClone(deps), {
+            cacheDir: path.resolve(env.cacheDir ?? DEFAULT_CACHE_DIR),
+            inputs: env.inputs?.split(',') ?? ['**'],
+            outputs: env.outputs?.split(',') ?? ['dist/**'],
+        }, env.script != null ? 'script' : command, env.script != null ? [command, ...args] : args)
+        : execute;
 
-    if (uncheck !== true) {
-        // Scan all dependencies
-        for (const currentFile of packagesCopy) {
-            const currentPackageInfo: PackageJson = JSON.parse(fs.readFileSync(currentFile, 'utf-8'));
-            // Save package file => package name alias
-            files[currentFile] = currentPackageInfo.name;
+    const results: Record<string, PackageCommandResult> = {};
+    const started = new Date();
 
-            for (const file of packagesCopy) {
-                const packageInfo: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
-                deps[packageInfo.name] ??= [];
-                // If package exists in other package dependencies
-                if (!uncheck.includes(packageInfo.name) && packageInfo.dependencies?.[currentPackageInfo.name] && !deps[packageInfo.name].includes(currentPackageInfo.name)) {
-                    deps[packageInfo.name].push(currentPackageInfo.name);
-                }
-                // if (packageInfo.devDependencies[currentPackageInfo.name] && !deps[packageInfo.name].includes(currentPackageInfo.name)) {
-                //     deps[packageInfo.name].push(currentPackageInfo.name);
-                // }
-            }
+    const schedule = await scheduleTasks(fileDeps, {
+        concurrency: maxThreads,
+        propagate: !env.continue,
+        bail: env.bail ?? false
+    }, async (file: string) => {
+        // Cancelled run doesn't start new packages
+        if (signal?.aborted) {
+            return false;
         }
+        console.log(`Processing packages: ${++processedFiles} of ${packages.length}`);
+        results[file] = await buildCommand(file, output);
+        return results[file].code === 0;
+    });
+
+    if (signal?.aborted) {
+        console.log(`Process cancelled.`);
+        return 130;
     }
 
-    const errors: CommandExecutionError[] = [];
-    const buildCommand = executePackageCommand.bind(null, errors, command, args);
-
-    do {
-        // Get all packages without dependencies
-        const emptyPackages = uncheck !== true ? packagesCopy.filter(file => Object.hasOwn(deps, files[file]) && deps[files[file]].length == 0) : packagesCopy;
-        // If all packages have dependencies, then throw error
-        if (emptyPackages.length === 0 && packagesCopy.length > 0) {
-            console.error(`Deadlock found for packages: ${packagesCopy.map(file => files[file]).join(', ')}`, deps);
-            return 1;
-        }
-        // Clone array
-        const chunks = [...emptyPackages];
-        // Split by chunks
-        while (chunks.length > 0) {
-            const chunk = chunks.splice(0, maxThreads);
-            console.log(`Processing packages: ${processedFiles + chunk.length} of ${packages.length}`);
-            await Promise.allSettled(chunk.map(buildCommand));
-            processedFiles += chunk.length;
+    const criticalPath = printScheduleSummary(schedule, fileDeps, file => files[file], deps);
+
+    if (env.report || env.junit) {
+        const commandLine = [command, ...args].join(' ');
+        const tasks = packages.map(file => ({id: file, name: files[file], path: path.dirname(file), command: commandLine}));
+        const report = createRunReport(commandLine, started, tasks, results, schedule, criticalPath ?? [], criticalPath != null && errors.length === 0);
+        if (env.report) {
+            writeJsonReport(path.resolve(env.report), report);
         }
-        if (uncheck !== true) {
-            for (const file of emptyPackages) {
-                // Remove processed package
-                packagesCopy.splice(packagesCopy.indexOf(file), 1);
-                const packageName = files[file];
-                // Remove package from dependencies
-                delete deps[packageName];
-                for (const dep in deps) {
-                    if (!Object.hasOwn(deps, dep)) {
-                        continue;
-                    }
-                    // Remove package from dependencies
-                    deps[dep].splice(deps[dep].indexOf(packageName), 1);
-                }
-            }
-        } else {
-            break;
+        if (env.junit) {
+            writeJUnitReport(path.resolve(env.junit), report);
         }
-    } while (packagesCopy.length > 0);
+    }
 
+    // If some packages depend on each other, they never start
+    if (criticalPath == null) {
+        return 1;
+    }
 
     if (errors.length > 0) {
         console.error(`Errors encountered during ${command} ${args.join(' ')}:`, errors.length);
@@ -206,4 +641,4 @@ export async function runPackageCommand(env: Partial<RunnerEnv>, packages: strin
 
     console.log(`Process completed successfully.`);
     return false;
-}
\ No newline at end of file
+}
@@ -0,0 +1,164 @@
+import path from "path";
+import fs from "fs";
+import {matchGlob} from "@monk-js/utils";
+import {getDependencyTypes, getPackageDependencies, getUncheckedPackages, RunnerEnv, runPackageCommand} from "@/utils";
+import {addPackageDependents, PackageSelection} from "@/affected";
+
+/**
+ * Package watcher
+ */
+export type PackageWatcher = {
+    /**
+     * Stops watching and cancels the running command
+     */
+    close: () => void
+}
+
+/**
+ * Default delay in milliseconds between the last change and the command run
+ */
+export const DEFAULT_WATCH_DEBOUNCE = 300;
+
+/**
+ * Checks whether a changed file should trigger a run. Files in `node_modules` and `.git`,
+ * and files produced by the command (`outputs` globs) are ignored.
+ *
+ * @param file Changed file path, relative to the package directory.
+ * @param outputs Globs of the files produced by the command.
+ */
+export function isWatchedFile(file: string, outputs: string[]): boolean {
+    const relative = file.replace(/\\/g, '/');
+    return !relative.split('/').some(part => part === 'node_modules' || part === '.git') && !matchGlob(relative, outputs);
+}
+
+/**
+ * Watches the files of a package directory and its subdirectories, except ignored ones like `node_modules`
+ * and output directories, so they aren't traversed. Subdirectories created later are watched once they appear.
+ *
+ * @param directory Package directory.
+ * @param outputs Globs of the files produced by the command.
+ * @param listener Called with the changed file path, relative to the package directory.
+ * @returns Function closing the watchers.
+ */
+function watchPackageDirectory(directory: string, outputs: string[], listener: (file: string) => void): () => void {
+    const watchers = new Map<string, fs.FSWatcher>();
+
+    const watchSubdirectory = (name: string) => {
+        const subdirectory = path.resolve(directory, name);
+        if (watchers.has(name) || !isWatchedFile(`${name}/`, outputs) || !fs.statSync(subdirectory, {throwIfNoEntry: false})?.isDirectory()) {
+            return;
+        }
+        const watcher = fs.watch(subdirectory, {recursive: true}, (_event, filename) => {
+            if (filename != null) {
+                listener(`${name}/${filename.toString()}`);
+            }
+        });
+        // A removed subdirectory is watched again once it's created
+        watcher.on('error', () => {
+            watcher.close();
+            watchers.delete(name);
+        });
+        watchers.set(name, watcher);
+    };
+
+    const watcher = fs.watch(directory, (_event, filename) => {
+        // Creating or removing an ignored directory isn't a change
+        if (filename != null && isWatchedFile(`${filename.toString()}/`, outputs)) {
+            watchSubdirectory(filename.toString());
+            listener(filename.toString());
+        }
+    });
+    for (const entry of fs.readdirSync(directory, {withFileTypes: true}).filter(entry => entry.isDirectory())) {
+        watchSubdirectory(entry.name);
+    }
+
+    return () => {
+        watcher.close();
+        watchers.forEach(item => item.close());
+    };
+}
+
+/**
+ * Watches package files and re-runs the command in changed packages and, in dependency order,
+ * in their workspace dependents. Changes are debounced, a new change cancels the running command
+ * and the next run starts once the cancelled one has settled, so runs never overlap.
+ *
+ * @param env Build environment.
+ * @param packages Package file list.
+ * @param command The process to execute.
+ * @param args An array of arguments to be passed to the command.
+ */
+export function watchPackageCommand(env: Partial<RunnerEnv>, packages: string[], command: string, args: string[]): PackageWatcher {
+    const {files, deps} = getPackageDependencies(packages, getUncheckedPackages(env), getDependencyTypes(env));
+    const outputs = env.outputs?.split(',') ?? ['dist/**'];
+    const debounce = env.debounce > 0 ? env.debounce : DEFAULT_WATCH_DEBOUNCE;
+    // Reports and logs are written by the run itself
+    const ignored = [env.logDir, env.report, env.junit, env.cacheDir].filter(Boolean).map(file => path.resolve(file));
+
+    let changed: PackageSelection = {};
+    let running: { controller: AbortController, selection: PackageSelection } | null = null;
+    let timer: NodeJS.Timeout | null = null;
+    // Runs are chained, a run starts after the previous one has settled
+    let queue: Promise<void> = Promise.resolve();
+
+    const run = async () => {
+        const selection = changed;
+        changed = {};
+        // Changes merged into a run queued earlier
+        if (Object.keys(selection).length === 0) {
+            return;
+        }
+
+        addPackageDependents(deps, selection);
+        console.log(`Changed packages: ${Object.keys(selection).map(name => `${name} (${selection[name]})`).join(', ')}`);
+
+        const controller = new AbortController();
+        running = {controller, selection};
+        await runPackageCommand(env, packages.filter(file => Object.hasOwn(selection, files[file])), command, args, controller.signal);
+        if (!controller.signal.aborted) {
+            running = null;
+            console.log(`Watching for changes...`);
+        }
+    };
+
+    const schedule = () => {
+        timer = null;
+        // Changes during the run restart it, including the packages it hasn't finished yet
+        if (running) {
+            running.controller.abort();
+            changed = {...running.selection, ...changed};
+            running = null;
+        }
+        queue = queue.then(run).catch((e: unknown) => console.error((e as Error).message));
+    };
+
+    const closers = packages.map(file => {
+        const directory = path.dirname(file);
+        return watchPackageDirectory(directory, outputs, (filename) => {
+            if (!isWatchedFile(filename, outputs)) {
+                return;
+            }
+            const changedFile = path.resolve(directory, filename);
+            if (ignored.some(item => changedFile === item || changedFile.startsWith(item + path.sep))) {
+                return;
+            }
+            changed[files[file]] ??= `changed ${filename.replace(/\\/g, '/')}`;
+            if (timer) {
+                clearTimeout(timer);
+            }
+            timer = setTimeout(schedule, debounce);
+        });
+    });
+
+    console.log(`Watching ${packages.length} packages for changes...`);
+
+    return {
+        close() {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            running?.controller.abort();
+            closers.forEach(closeWatchers => closeWatchers());
+        }
+    };
+}
@@ -0,0 +1,119 @@
+import path from "path";
+import fs from "fs";
+import {getFileList, globToRegExp} from "@monk-js/utils";
+
+/**
+ * Root package.json workspaces field, either a list of globs or an object with `packages` globs
+ */
+export type Workspaces = string[] | { packages?: string[] };
+
+/**
+ * Directories never searched for workspace packages
+ */
+const IGNORED_DIRECTORIES = ['node_modules', '.git'];
+
+/**
+ * Reads workspace globs from the root package.json.
+ *
+ * @param root Workspace root directory.
+ * @returns Globs, or `null` if the root package.json doesn't declare workspaces.
+ */
+export function getWorkspaceGlobs(root: string): string[] | null {
+    const file = path.resolve(root, 'package.json');
+    if (!fs.existsSync(file)) {
+        return null;
+    }
+    const workspaces: Workspaces | undefined = JSON.parse(fs.readFileSync(file, 'utf-8')).workspaces;
+    const globs = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+
+    return globs?.length > 0 ? globs : null;
+}
+
+/**
+ * Normalizes workspace glob: Unix-style separators, no leading `./` and trailing `/`.
+ *
+ * @param glob Workspace glob.
+ */
+function normalizeGlob(glob: string): string {
+    return glob.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Finds directories matching the workspace globs. Only matched directories are packages,
+ * package.json files nested deeper (fixtures, examples) are not picked up. Globs starting with `!` exclude directories.
+ *
+ * @param root Workspace root directory.
+ * @param globs Workspace globs, e.g. `./packages/*`.
+ * @returns package.json file paths.
+ */
+export function resolveWorkspaceGlobs(root: string, globs: string[]): string[] {
+    const includes = globs.filter(glob => !glob.startsWith('!')).map(normalizeGlob);
+    const excludes = globs.filter(glob => glob.startsWith('!')).map(glob => globToRegExp(normalizeGlob(glob.substring(1))));
+    const packages = new Set<string>();
+
+    for (const glob of includes) {
+        const segments = glob.split('/');
+        // Walk from the static part of the glob only
+        const firstGlob = segments.findIndex(segment => /[*?{[]/.test(segment));
+        const staticSegments = firstGlob === -1 ? segments : segments.slice(0, firstGlob);
+        const base = path.resolve(root, ...staticSegments);
+        const pattern = globToRegExp(glob);
+        const maxDepth = glob.includes('**') ? Infinity : segments.length - staticSegments.length;
+
+        const candidates = [base];
+        if (fs.existsSync(base) && fs.statSync(base).isDirectory() && maxDepth > 0) {
+            candidates.push(...getDirectories(base, maxDepth));
+        }
+
+        for (const directory of candidates) {
+            const relative = path.relative(root, directory).replace(/\\/g, '/');
+            const file = path.resolve(directory, 'package.json');
+            if (pattern.test(relative) && !excludes.some(exclude => exclude.test(relative)) && fs.existsSync(file)) {
+                packages.add(file);
+            }
+        }
+    }
+
+    return [...packages];
+}
+
+/**
+ * Lists subdirectories up to the given depth.
+ *
+ * @param directory Directory to search in.
+ * @param depth Maximum depth.
+ */
+function getDirectories(directory: string, depth: number): string[] {
+    const directories: string[] = [];
+
+    for (const item of fs.readdirSync(directory, {withFileTypes: true})) {
+        if (item.isDirectory() && !IGNORED_DIRECTORIES.includes(item.name)) {
+            const itemPath = path.resolve(directory, item.name);
+            directories.push(itemPath);
+            if (depth > 1) {
+                directories.push(...getDirectories(itemPath, depth - 1));
+            }
+        }
+    }
+
+    return directories;
+}
+
+/**
+ * Discovers workspace packages. An explicit packages directory is searched recursively,
+ * otherwise the root package.json `workspaces` globs are used, falling back to `./packages`.
+ *
+ * @param root Workspace root directory.
+ * @param packages Packages directory, relative to the root.
+ * @returns package.json file paths.
+ */
+export function getWorkspacePackages(root: string, packages?: string): string[] {
+    const globs = packages == null ? getWorkspaceGlobs(root) : null;
+
+    if (globs != null) {
+        return resolveWorkspaceGlobs(root, globs);
+    }
+
+    return getFileList(path.resolve(root, packages ?? './packages'), root, (itemPath, isDirectory) => isDirectory && IGNORED_DIRECTORIES.includes(path.basename(itemPath)))
+        .filter((file: string) => path.basename(file) === 'package.json');
+}
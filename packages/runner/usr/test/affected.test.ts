@@ -0,0 +1,94 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {execFileSync} from "child_process";
+import {addPackageDependents, getAffectedPackages, getOwningPackage} from "@/affected";
+
+describe('getOwningPackage', () => {
+    const packages = ['/ws/packages/a/package.json', '/ws/packages/a/nested/package.json', '/ws/packages/ab/package.json'];
+
+    it('finds the deepest package containing the file', () => {
+        assert.equal(getOwningPackage(packages, '/ws/packages/a/src/index.ts'), packages[0]);
+        assert.equal(getOwningPackage(packages, '/ws/packages/a/nested/index.ts'), packages[1]);
+        assert.equal(getOwningPackage(packages, '/ws/packages/ab/index.ts'), packages[2]);
+    });
+
+    it('returns null for files outside of packages', () => {
+        assert.equal(getOwningPackage(packages, '/ws/package.json'), null);
+    });
+});
+
+describe('addPackageDependents', () => {
+    it('adds direct and transitive dependents', () => {
+        const deps = {a: [], b: ['a'], c: ['b'], d: []};
+
+        assert.deepEqual(addPackageDependents(deps, {a: 'changed'}), {a: 'changed', b: 'depends on a', c: 'depends on b'});
+    });
+});
+
+describe('getAffectedPackages', () => {
+    let root: string;
+    let packages: string[];
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@localhost', ...args], {cwd: root, stdio: 'pipe'});
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-affected-'));
+        packages = ['a', 'b', 'c'].map(name => {
+            const directory = path.resolve(root, 'packages', name);
+            fs.mkdirSync(directory, {recursive: true});
+            fs.writeFileSync(path.resolve(directory, 'index.js'), '');
+            fs.writeFileSync(path.resolve(directory, 'package.json'), JSON.stringify({name, dependencies: name === 'b' ? {a: '*'} : {}}));
+            return path.resolve(directory, 'package.json');
+        });
+        fs.writeFileSync(path.resolve(root, 'notes.txt'), '');
+        fs.writeFileSync(path.resolve(root, 'tsconfig.build.json'), '{}');
+        git('init', '-q');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'init');
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('selects nothing without changes', async () => {
+        assert.deepEqual(await getAffectedPackages(packages, 'HEAD', root), []);
+    });
+
+    it('selects changed packages and their dependents', async () => {
+        fs.writeFileSync(path.resolve(root, 'packages/a/index.js'), 'changed');
+
+        assert.deepEqual(await getAffectedPackages(packages, 'HEAD', root), packages.slice(0, 2));
+        git('checkout', '--', '.');
+    });
+
+    it('selects packages with untracked files', async () => {
+        fs.writeFileSync(path.resolve(root, 'packages/c/new.js'), '');
+
+        assert.deepEqual(await getAffectedPackages(packages, 'HEAD', root), [packages[2]]);
+        fs.rmSync(path.resolve(root, 'packages/c/new.js'));
+    });
+
+    it('ignores changes outside of packages', async () => {
+        fs.writeFileSync(path.resolve(root, 'notes.txt'), 'changed');
+
+        assert.deepEqual(await getAffectedPackages(packages, 'HEAD', root), []);
+        git('checkout', '--', '.');
+    });
+
+    it('selects every package on shared root file changes', async () => {
+        fs.writeFileSync(path.resolve(root, 'tsconfig.build.json'), '{"compilerOptions": {}}');
+
+        assert.deepEqual(await getAffectedPackages(packages, 'HEAD', root), packages);
+        git('checkout', '--', '.');
+    });
+
+    it('ignores dependencies of unchecked packages', async () => {
+        fs.writeFileSync(path.resolve(root, 'packages/a/index.js'), 'changed');
+
+        assert.deepEqual(await getAffectedPackages(packages, 'HEAD', root, {uncheck: 'b'}), [packages[0]]);
+        git('checkout', '--', '.');
+    });
+});
\ No newline at end of file
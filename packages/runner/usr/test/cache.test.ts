@@ -0,0 +1,122 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {CacheOptions, getPackageFiles, getPackageHash, restorePackageCache, savePackageCache} from "@/cache";
+import {CommandExecutionError, executeCachedPackageCommand, executePackageCommand, executePackageScript} from "@/utils";
+
+/**
+ * Creates a package directory with the given files
+ */
+function writePackage(root: string, name: string, files: Record<string, string>): string {
+    const directory = path.resolve(root, name);
+    for (const [file, content] of Object.entries({'package.json': JSON.stringify({name}), ...files})) {
+        fs.mkdirSync(path.dirname(path.resolve(directory, file)), {recursive: true});
+        fs.writeFileSync(path.resolve(directory, file), content);
+    }
+    return path.resolve(directory, 'package.json');
+}
+
+describe('build cache', () => {
+    let root: string;
+    let options: CacheOptions;
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-cache-'));
+        options = {cacheDir: path.resolve(root, '.cache'), inputs: ['**'], outputs: ['dist/**']};
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('lists input files without outputs and node_modules', () => {
+        const file = writePackage(root, 'files', {'src/index.ts': '', 'dist/index.js': '', 'node_modules/x/index.js': ''});
+
+        assert.deepEqual(getPackageFiles(path.dirname(file), options.inputs, options.outputs), ['package.json', 'src/index.ts']);
+    });
+
+    it('hashes the command, inputs and dependency hashes', () => {
+        const file = writePackage(root, 'hash', {'src/index.ts': 'a', 'dist/index.js': '1'});
+        const hash = getPackageHash(file, 'yarn', ['build'], ['dep'], options);
+
+        assert.equal(getPackageHash(file, 'yarn', ['build'], ['dep'], options), hash);
+        assert.notEqual(getPackageHash(file, 'yarn', ['test'], ['dep'], options), hash);
+        assert.notEqual(getPackageHash(file, 'yarn', ['build'], ['other'], options), hash);
+
+        fs.writeFileSync(path.resolve(path.dirname(file), 'dist/index.js'), '2');
+        assert.equal(getPackageHash(file, 'yarn', ['build'], ['dep'], options), hash);
+        fs.writeFileSync(path.resolve(path.dirname(file), 'src/index.ts'), 'b');
+        assert.notEqual(getPackageHash(file, 'yarn', ['build'], ['dep'], options), hash);
+    });
+
+    it('restores saved outputs', () => {
+        const file = writePackage(root, 'restore', {'dist/index.js': 'built'});
+        const directory = path.dirname(file);
+
+        assert.equal(restorePackageCache(file, 'restore-hash', options), null);
+        savePackageCache(file, 'restore', 'restore-hash', 'output', options);
+        fs.rmSync(path.resolve(directory, 'dist'), {recursive: true});
+        fs.mkdirSync(path.resolve(directory, 'dist'));
+        fs.writeFileSync(path.resolve(directory, 'dist/stale.js'), '');
+
+        assert.equal(restorePackageCache(file, 'restore-hash', options).stdout, 'output');
+        assert.deepEqual(fs.readdirSync(path.resolve(directory, 'dist')), ['index.js']);
+        assert.equal(fs.readFileSync(path.resolve(directory, 'dist/index.js'), 'utf-8'), 'built');
+    });
+
+    it('chains dependency hashes, a changed dependency invalidates its dependents', async () => {
+        const a = writePackage(root, 'chain-a', {'src/index.ts': 'a'});
+        const b = writePackage(root, 'chain-b', {'src/index.ts': 'b'});
+        const deps = {'chain-a': [], 'chain-b': ['chain-a']};
+        const run = async () => {
+            const hashes: Record<string, string> = {};
+            const errors: CommandExecutionError[] = [];
+            const execute = executePackageCommand.bind(null, errors, 'echo', ['built']);
+            await executeCachedPackageCommand(execute, hashes, deps, options, 'echo', ['built'], a);
+            const {stdout} = await executeCachedPackageCommand(execute, hashes, deps, options, 'echo', ['built'], b);
+            assert.deepEqual(errors, []);
+            assert.equal(stdout, 'built\n');
+            return hashes;
+        };
+
+        const first = await run();
+        assert.deepEqual(await run(), first);
+
+        fs.writeFileSync(path.resolve(path.dirname(a), 'src/index.ts'), 'changed');
+        const changed = await run();
+        assert.notEqual(changed['chain-a'], first['chain-a']);
+        assert.notEqual(changed['chain-b'], first['chain-b']);
+    });
+
+    it('doesn\'t cache dependents of a failed package', async () => {
+        const a = writePackage(root, 'failed-a', {});
+        const b = writePackage(root, 'failed-b', {});
+        const hashes: Record<string, string> = {};
+        const errors: CommandExecutionError[] = [];
+        const deps = {'failed-a': [], 'failed-b': ['failed-a']};
+
+        assert.equal((await executeCachedPackageCommand(executePackageCommand.bind(null, errors, 'exit', ['1']), hashes, deps, options, 'exit', ['1'], a)).code, 1);
+        await executeCachedPackageCommand(executePackageCommand.bind(null, errors, 'echo', ['built']), hashes, deps, options, 'echo', ['built'], b);
+
+        assert.deepEqual(hashes, {});
+        assert.equal(errors.length, 1);
+    });
+
+    it('caches dependents of a package skipped without the script', async () => {
+        const a = writePackage(root, 'script-a', {});
+        const b = writePackage(root, 'script-b', {});
+        fs.writeFileSync(b, JSON.stringify({name: 'script-b', scripts: {build: 'echo built'}}));
+        const deps = {'script-a': [], 'script-b': ['script-a']};
+        const run = async () => {
+            const hashes: Record<string, string> = {};
+            const execute = executePackageScript.bind(null, [], 'build', [], true);
+            assert.ok((await executeCachedPackageCommand(execute, hashes, deps, options, 'build', [], a)).skipped);
+            return executeCachedPackageCommand(execute, hashes, deps, options, 'build', [], b);
+        };
+
+        assert.equal((await run()).cached, false);
+        assert.equal((await run()).cached, true);
+    });
+});
\ No newline at end of file
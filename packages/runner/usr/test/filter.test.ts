@@ -0,0 +1,76 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {filterPackages, parsePackageSelectors} from "@/filter";
+
+describe('parsePackageSelectors', () => {
+    it('parses exclusions, dependencies and dependents', () => {
+        assert.deepEqual(parsePackageSelectors('@monk-js/*, !@monk-js/version,...utils,runner...'), [
+            {pattern: '@monk-js/*', exclude: false, dependencies: false, dependents: false},
+            {pattern: '@monk-js/version', exclude: true, dependencies: false, dependents: false},
+            {pattern: 'utils', exclude: false, dependencies: false, dependents: true},
+            {pattern: 'runner', exclude: false, dependencies: true, dependents: false}
+        ]);
+    });
+
+    it('keeps commas inside glob braces', () => {
+        assert.deepEqual(parsePackageSelectors('@monk-js/{runner,version}...,!@monk-js/{utils}'), [
+            {pattern: '@monk-js/{runner,version}', exclude: false, dependencies: true, dependents: false},
+            {pattern: '@monk-js/{utils}', exclude: true, dependencies: false, dependents: false}
+        ]);
+    });
+});
+
+describe('filterPackages', () => {
+    let root: string;
+    let packages: Record<string, string>;
+    const filter = (value: string, env = {}) => filterPackages(Object.values(packages), value, env).map(file => path.basename(path.dirname(file)));
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-filter-'));
+        // a <- b <- c, d has no dependencies
+        const manifests = {
+            a: {name: '@scope/a'},
+            b: {name: '@scope/b', dependencies: {'@scope/a': '*'}},
+            c: {name: '@scope/c', dependencies: {'@scope/b': '*'}},
+            d: {name: 'd'}
+        };
+        packages = {};
+        for (const [directory, manifest] of Object.entries(manifests)) {
+            fs.mkdirSync(path.resolve(root, directory));
+            packages[directory] = path.resolve(root, directory, 'package.json');
+            fs.writeFileSync(packages[directory], JSON.stringify(manifest));
+        }
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('selects packages by name and glob', () => {
+        assert.deepEqual(filter('@scope/b'), ['b']);
+        assert.deepEqual(filter('@scope/*'), ['a', 'b', 'c']);
+        assert.deepEqual(filter('@scope/a,d'), ['a', 'd']);
+        assert.deepEqual(filter('@scope/{a,c},d'), ['a', 'c', 'd']);
+    });
+
+    it('selects dependencies and dependents', () => {
+        assert.deepEqual(filter('@scope/c...'), ['a', 'b', 'c']);
+        assert.deepEqual(filter('...@scope/b'), ['b', 'c']);
+    });
+
+    it('ignores dependencies of unchecked packages', () => {
+        assert.deepEqual(filter('@scope/c...', {uncheck: '@scope/b'}), ['b', 'c']);
+    });
+
+    it('excludes packages', () => {
+        assert.deepEqual(filter('!@scope/*'), ['d']);
+        assert.deepEqual(filter('@scope/c...,!@scope/a'), ['b', 'c']);
+    });
+
+    it('selects nothing if nothing matches', () => {
+        assert.deepEqual(filter('missing'), []);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,56 @@
+import {describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {PackageGraph} from "@/utils";
+import {renderGraph} from "@/graph";
+
+const graph: PackageGraph = {
+    files: {'/w/app/package.json': 'app', '/w/lib/package.json': 'lib', '/w/tools/package.json': 'tools'},
+    deps: {app: ['lib', 'tools'], lib: ['tools'], tools: []},
+    edgeTypes: {app: {lib: 'dependencies', tools: 'devDependencies'}, lib: {tools: 'peerDependencies'}, tools: {}}
+};
+
+describe('renderGraph', () => {
+    it('renders a tree with labeled edges and printed subtrees', () => {
+        assert.equal(renderGraph(graph), [
+            'app',
+            '├── lib',
+            '│   └── tools [peer]',
+            '└── tools [dev]'
+        ].join('\n'));
+    });
+
+    it('marks cycles in the tree', () => {
+        const cyclic: PackageGraph = {files: {}, deps: {a: ['b'], b: ['a']}, edgeTypes: {}};
+
+        assert.equal(renderGraph(cyclic), [
+            'a',
+            '└── b',
+            '    └── a (cycle)'
+        ].join('\n'));
+    });
+
+    it('renders Graphviz DOT with cycle edges highlighted', () => {
+        const dot = renderGraph({...graph, deps: {...graph.deps, tools: ['app']}}, 'dot');
+
+        assert.match(dot, /^digraph workspace \{/);
+        assert.match(dot, /"app" -> "lib" \[color=red\];/);
+        assert.match(dot, /"app" -> "tools" \[label="dev", style=dashed\];/);
+        assert.match(dot, /"lib" -> "tools" \[label="peer", style=dashed, color=red\];/);
+        assert.match(dot, /"tools" -> "app" \[color=red\];/);
+    });
+
+    it('renders JSON with dependency types', () => {
+        const json = JSON.parse(renderGraph(graph, 'json'));
+
+        assert.deepEqual(json.packages[0], {
+            name: 'app',
+            path: '/w/app',
+            dependencies: [{name: 'lib', type: 'dependencies'}, {name: 'tools', type: 'devDependencies'}]
+        });
+        assert.deepEqual(json.cycles, []);
+    });
+
+    it('rejects unknown formats', () => {
+        assert.throws(() => renderGraph(graph, 'svg' as 'dot'), /Unknown graph format "svg"/);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,66 @@
+import {afterEach, beforeEach, describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {createPackageOutput, getLogFileName} from "@/output";
+
+describe('createPackageOutput', () => {
+    let printed: string[];
+
+    beforeEach(() => {
+        process.env.NO_COLOR = '1';
+        printed = [];
+        mock.method(process.stdout, 'write', (data: string) => printed.push(data));
+        mock.method(console, 'log', (data: string) => printed.push(data));
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.NO_COLOR;
+    });
+
+    it('streams complete lines prefixed with the package name', () => {
+        const output = createPackageOutput('@monk-js/utils', {mode: 'stream'});
+        output.write('first\nsec', 'stdout');
+        const beforeClose = [...printed];
+        output.write('ond\nlast', 'stdout');
+        output.close(true);
+        mock.restoreAll();
+
+        assert.deepEqual(beforeClose, ['@monk-js/utils | first\n']);
+        assert.deepEqual(printed, ['@monk-js/utils | first\n', '@monk-js/utils | second\n', '@monk-js/utils | last\n']);
+    });
+
+    it('prints grouped output as one block when the package finishes', () => {
+        const output = createPackageOutput('a', {mode: 'grouped'});
+        output.write('one\n', 'stdout');
+        output.write('two\n\n', 'stdout');
+        const beforeClose = [...printed];
+        output.close(true);
+        mock.restoreAll();
+
+        assert.deepEqual(beforeClose, []);
+        assert.deepEqual(printed, ['Package: a. Output:\none\ntwo']);
+    });
+
+    it('writes the whole output to the package log file', () => {
+        const logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-logs-'));
+        const output = createPackageOutput('@monk-js/utils', {mode: 'errors', logDir});
+        output.write('out\n', 'stdout');
+        output.write('err\n', 'stderr');
+        output.close(false);
+        mock.restoreAll();
+
+        assert.deepEqual(printed, []);
+        assert.equal(fs.readFileSync(path.resolve(logDir, 'monk-js__utils.log'), 'utf-8'), 'out\nerr\n');
+        fs.rmSync(logDir, {recursive: true, force: true});
+    });
+});
+
+describe('getLogFileName', () => {
+    it('flattens scoped package names', () => {
+        assert.equal(getLogFileName('@monk-js/utils'), 'monk-js__utils.log');
+        assert.equal(getLogFileName('utils'), 'utils.log');
+    });
+});
\ No newline at end of file
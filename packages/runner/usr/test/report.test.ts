@@ -0,0 +1,86 @@
+import {after, before, describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {getOutputTail, RunReport} from "@/report";
+import {runPackageCommand} from "@/utils";
+
+describe('getOutputTail', () => {
+    it('keeps the last lines without trailing whitespace', () => {
+        assert.equal(getOutputTail('1\n2\n3\n\n', 2), '2\n3');
+        assert.equal(getOutputTail(undefined), '');
+    });
+});
+
+describe('run reports', () => {
+    let root: string;
+    let packages: string[];
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-report-'));
+        // a fails, b depends on a, c succeeds
+        packages = ['a', 'b', 'c'].map(name => {
+            const directory = path.resolve(root, name);
+            fs.mkdirSync(directory);
+            fs.writeFileSync(path.resolve(directory, 'run.js'), name === 'a' ? 'console.error("<broken> & failed"); process.exit(2);' : 'console.log("done");');
+            fs.writeFileSync(path.resolve(directory, 'package.json'), JSON.stringify({name, dependencies: name === 'b' ? {a: '*'} : {}}));
+            return path.resolve(directory, 'package.json');
+        });
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('writes package statuses as JSON and JUnit XML', async () => {
+        const report = path.resolve(root, 'reports/run.json');
+        const junit = path.resolve(root, 'reports/run.xml');
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'error', () => undefined);
+        const result = await runPackageCommand({report, junit, concurrency: 1}, packages, 'node', ['run.js']);
+        mock.restoreAll();
+
+        assert.ok(Array.isArray(result) && result.length === 1);
+        const json: RunReport = JSON.parse(fs.readFileSync(report, 'utf-8'));
+        assert.equal(json.command, 'node run.js');
+        assert.equal(json.success, false);
+        assert.deepEqual(json.packages.map(({name, status, exitCode, reason}) => ({name, status, exitCode, reason})), [
+            {name: 'a', status: 'failed', exitCode: 2, reason: undefined},
+            {name: 'b', status: 'skipped', exitCode: null, reason: 'skipped due to failure of a'},
+            {name: 'c', status: 'success', exitCode: 0, reason: undefined}
+        ]);
+        assert.equal(json.packages[0].stderr, '<broken> & failed');
+        assert.equal(json.packages[2].stdout, 'done');
+
+        const xml = fs.readFileSync(junit, 'utf-8');
+        assert.match(xml, /<testsuite name="node run\.js" tests="3" failures="1" skipped="1"/);
+        assert.match(xml, /<failure message="Exit code 2">&lt;broken&gt; &amp; failed<\/failure>/);
+        assert.match(xml, /<skipped message="skipped due to failure of a"\/>/);
+    });
+
+    it('reports packages blocked by a dependency cycle', async () => {
+        const report = path.resolve(root, 'reports/cycle.json');
+        const junit = path.resolve(root, 'reports/cycle.xml');
+        const cycle = ['d', 'e'].map(name => {
+            const file = path.resolve(root, name, 'package.json');
+            fs.mkdirSync(path.dirname(file));
+            fs.writeFileSync(file, JSON.stringify({name, dependencies: {[name === 'd' ? 'e' : 'd']: '*'}}));
+            return file;
+        });
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'error', () => undefined);
+        const result = await runPackageCommand({report, junit}, [packages[2], ...cycle], 'node', ['-e', '0']);
+        mock.restoreAll();
+
+        assert.equal(result, 1);
+        const json: RunReport = JSON.parse(fs.readFileSync(report, 'utf-8'));
+        assert.equal(json.success, false);
+        assert.deepEqual(json.packages.map(({name, status, reason}) => ({name, status, reason})), [
+            {name: 'c', status: 'success', reason: undefined},
+            {name: 'd', status: 'blocked', reason: 'not started, waiting on a dependency cycle'},
+            {name: 'e', status: 'blocked', reason: 'not started, waiting on a dependency cycle'}
+        ]);
+        assert.match(fs.readFileSync(junit, 'utf-8'), /tests="3" failures="2" skipped="0"/);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,117 @@
+import {describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {findDependencyCycles, getCriticalPath, getTaskHeights, scheduleTasks} from "@/scheduler";
+
+const options = {concurrency: 2, propagate: true, bail: false};
+
+describe('scheduleTasks', () => {
+    it('starts tasks after their dependencies complete', async () => {
+        const order: string[] = [];
+        const result = await scheduleTasks({a: [], b: ['a'], c: ['b']}, options, async id => {
+            order.push(id);
+        });
+
+        assert.deepEqual(order, ['a', 'b', 'c']);
+        assert.deepEqual(Object.keys(result.timings).sort(), ['a', 'b', 'c']);
+        assert.deepEqual(result.pending, []);
+    });
+
+    it('treats dependencies missing from the map as completed', async () => {
+        const order: string[] = [];
+        await scheduleTasks({a: ['external']}, options, async id => {
+            order.push(id);
+        });
+
+        assert.deepEqual(order, ['a']);
+    });
+
+    it('runs at most the given number of tasks at once', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        await scheduleTasks({a: [], b: [], c: [], d: []}, options, async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            running--;
+        });
+
+        assert.equal(maxRunning, 2);
+    });
+
+    it('starts a task as soon as its dependencies complete, without waiting for the others', async () => {
+        const order: string[] = [];
+        await scheduleTasks({slow: [], fast: [], next: ['fast']}, options, async id => {
+            await new Promise(resolve => setTimeout(resolve, id === 'slow' ? 100 : 5));
+            order.push(id);
+        });
+
+        assert.deepEqual(order, ['fast', 'next', 'slow']);
+    });
+
+    it('starts tasks with the longest chain of dependents first', async () => {
+        const order: string[] = [];
+        await scheduleTasks({a: [], b: [], c: ['b'], d: ['c']}, {...options, concurrency: 1}, async id => {
+            order.push(id);
+        });
+
+        assert.equal(order[0], 'b');
+    });
+
+    it('skips dependents of failed tasks', async () => {
+        const result = await scheduleTasks({a: [], b: ['a'], c: ['b'], d: []}, options, async id => id !== 'a');
+
+        assert.deepEqual(result.failed, ['a']);
+        assert.deepEqual(result.skipped, {b: 'a', c: 'a'});
+        assert.ok(Object.hasOwn(result.timings, 'd'));
+    });
+
+    it('runs dependents of failed tasks without propagation', async () => {
+        const result = await scheduleTasks({a: [], b: ['a']}, {...options, propagate: false}, async id => {
+            if (id === 'a') {
+                throw new Error('failed');
+            }
+        });
+
+        assert.deepEqual(result.failed, ['a']);
+        assert.deepEqual(result.skipped, {});
+        assert.ok(Object.hasOwn(result.timings, 'b'));
+    });
+
+    it('cancels not started tasks after the first failure in bail mode', async () => {
+        const result = await scheduleTasks({a: [], b: ['a'], c: ['a']}, {...options, bail: true}, async id => id !== 'a');
+
+        assert.deepEqual(result.failed, ['a']);
+        assert.deepEqual(result.cancelled.sort(), ['b', 'c']);
+    });
+
+    it('leaves tasks of a dependency cycle pending', async () => {
+        const order: string[] = [];
+        const result = await scheduleTasks({a: ['b'], b: ['a'], c: []}, options, async id => {
+            order.push(id);
+        });
+
+        assert.deepEqual(order, ['c']);
+        assert.deepEqual(result.pending.sort(), ['a', 'b']);
+    });
+});
+
+describe('getTaskHeights', () => {
+    it('counts the longest chain of dependents', () => {
+        assert.deepEqual(getTaskHeights({a: [], b: ['a'], c: ['b'], d: ['a']}), {a: 3, b: 2, c: 1, d: 1});
+    });
+});
+
+describe('getCriticalPath', () => {
+    it('finds the dependency chain with the longest total duration', () => {
+        const timings = {a: {start: 0, end: 10}, b: {start: 10, end: 20}, c: {start: 0, end: 5}, d: {start: 5, end: 40}};
+
+        assert.deepEqual(getCriticalPath({a: [], b: ['a'], c: [], d: ['c']}, timings), ['c', 'd']);
+    });
+});
+
+describe('findDependencyCycles', () => {
+    it('reports each cycle once', () => {
+        assert.deepEqual(findDependencyCycles({a: ['b'], b: ['c'], c: ['a'], d: ['a']}), [['a', 'b', 'c', 'a']]);
+        assert.deepEqual(findDependencyCycles({a: ['a'], b: []}), [['a', 'a']]);
+        assert.deepEqual(findDependencyCycles({a: ['b'], b: [], c: ['b']}), []);
+    });
+});
\ No newline at end of file
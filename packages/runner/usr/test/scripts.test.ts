@@ -0,0 +1,77 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {getBinPaths, getScriptEnv, getScriptLifecycle} from "@/scripts";
+import {CommandExecutionError, executePackageScript} from "@/utils";
+
+describe('getScriptLifecycle', () => {
+    it('adds pre and post hooks of the script', () => {
+        assert.deepEqual(getScriptLifecycle({prebuild: 'a', build: 'b', postbuild: 'c', test: 'd'}, 'build'), ['prebuild', 'build', 'postbuild']);
+        assert.deepEqual(getScriptLifecycle({build: 'b', posttest: 'c'}, 'build'), ['build']);
+    });
+
+    it('returns nothing for a missing script, even with hooks', () => {
+        assert.deepEqual(getScriptLifecycle({prebuild: 'a'}, 'build'), []);
+        assert.deepEqual(getScriptLifecycle(undefined, 'build'), []);
+    });
+});
+
+describe('package scripts', () => {
+    let root: string;
+    let file: string;
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-scripts-'));
+        fs.mkdirSync(path.resolve(root, 'node_modules/.bin'), {recursive: true});
+        fs.mkdirSync(path.resolve(root, 'packages/a/node_modules/.bin'), {recursive: true});
+        file = path.resolve(root, 'packages/a/package.json');
+        fs.writeFileSync(file, JSON.stringify({
+            name: 'a',
+            version: '1.2.3',
+            scripts: {
+                prebuild: 'node -e "console.log(\'pre\')"',
+                build: 'node -e "console.log(process.env.npm_lifecycle_event, process.env.npm_package_name, process.env.npm_package_version)"',
+                postbuild: 'node -e "console.log(\'post\')"'
+            }
+        }));
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('lists node_modules/.bin directories up to the root', () => {
+        const paths = getBinPaths(path.dirname(file));
+
+        assert.deepEqual(paths.slice(0, 2), [path.resolve(root, 'packages/a/node_modules/.bin'), path.resolve(root, 'node_modules/.bin')]);
+    });
+
+    it('sets the script environment', () => {
+        const env = getScriptEnv(path.dirname(file), 'build', 'a', '1.2.3');
+        const pathKey = Object.keys(env).find(key => key.toUpperCase() === 'PATH');
+
+        assert.ok(env[pathKey].startsWith(path.resolve(root, 'packages/a/node_modules/.bin') + path.delimiter));
+        assert.equal(env.npm_lifecycle_event, 'build');
+        assert.equal(env.npm_package_name, 'a');
+        assert.equal(env.npm_package_version, '1.2.3');
+    });
+
+    it('runs the script with its hooks', async () => {
+        const errors: CommandExecutionError[] = [];
+        const result = await executePackageScript(errors, 'build', [], false, file);
+
+        assert.deepEqual(errors, []);
+        assert.equal(result.stdout, 'pre\nbuild a 1.2.3\npost\n');
+    });
+
+    it('skips packages without the script only with --if-present', async () => {
+        const errors: CommandExecutionError[] = [];
+
+        assert.equal((await executePackageScript(errors, 'lint', [], true, file)).skipped, 'no "lint" script');
+        assert.equal(errors.length, 0);
+        assert.notEqual((await executePackageScript(errors, 'lint', [], false, file)).code, 0);
+        assert.equal(errors.length, 1);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,82 @@
+import {after, before, describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {PackageGraph} from "@/utils";
+import {getPipeline, getTaskGraph, Pipeline, runTaskPipeline} from "@/tasks";
+
+const graph: PackageGraph = {
+    files: {'/w/a/package.json': 'a', '/w/b/package.json': 'b', '/w/c/package.json': 'c'},
+    deps: {a: [], b: ['a'], c: ['b']},
+    edgeTypes: {}
+};
+
+describe('getTaskGraph', () => {
+    const pipeline: Pipeline = {
+        generate: {},
+        build: {dependsOn: ['generate', '^build']},
+        test: {dependsOn: ['build', 'a#lint']},
+        lint: {}
+    };
+
+    it('links tasks of the same package, of dependencies and of named packages', () => {
+        const {nodes, deps} = getTaskGraph(pipeline, graph, ['test']);
+
+        assert.deepEqual(nodes['b#build'], {id: 'b#build', name: 'b', task: 'build', file: '/w/b/package.json'});
+        assert.deepEqual(deps['c#test'], ['c#build', 'a#lint']);
+        assert.deepEqual(deps['c#build'], ['c#generate', 'b#build']);
+        assert.deepEqual(deps['a#build'], ['a#generate']);
+        assert.deepEqual(deps['a#test'], ['a#build', 'a#lint']);
+        assert.deepEqual(Object.keys(nodes).filter(id => id.endsWith('#lint')), ['a#lint']);
+    });
+
+    it('rejects unknown tasks and packages', () => {
+        assert.throws(() => getTaskGraph(pipeline, graph, ['biuld']), /Unknown task "biuld". Did you mean build\?/);
+        assert.throws(() => getTaskGraph({build: {dependsOn: ['^bundle']}}, graph, ['build']), /Unknown task "bundle" in dependsOn of task "build"/);
+        assert.throws(() => getTaskGraph({build: {dependsOn: ['d#build']}}, graph, ['build']), /Unknown package "d" in dependsOn of task "build"/);
+    });
+});
+
+describe('runTaskPipeline', () => {
+    let root: string;
+    let packages: string[];
+    const log = () => fs.readFileSync(path.resolve(root, 'tasks.log'), 'utf-8').trim().split('\n');
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-tasks-'));
+        const script = (task: string) => `node -e "require('fs').appendFileSync('../tasks.log', process.env.npm_package_name + '#${task} ' + (process.env.MODE ?? '') + '\\n')"`;
+        fs.writeFileSync(path.resolve(root, 'package.json'), JSON.stringify({
+            monk: {tasks: {build: {dependsOn: ['^build'], env: {MODE: 'production'}}, test: {dependsOn: ['build']}}}
+        }));
+        packages = Object.entries({
+            a: {name: 'a', scripts: {build: script('build'), test: script('test')}},
+            b: {name: 'b', dependencies: {a: '*'}, scripts: {build: script('build')}}
+        }).map(([directory, json]) => {
+            const file = path.resolve(root, directory, 'package.json');
+            fs.mkdirSync(path.dirname(file));
+            fs.writeFileSync(file, JSON.stringify(json));
+            return file;
+        });
+        mock.method(console, 'log', () => undefined);
+    });
+
+    after(() => {
+        mock.restoreAll();
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('reads the pipeline from the root package.json', () => {
+        assert.deepEqual(Object.keys(getPipeline(root)), ['build', 'test']);
+        assert.equal(getPipeline(path.resolve(root, 'a')), null);
+    });
+
+    it('runs tasks in dependency order and skips packages without the script', async () => {
+        assert.equal(await runTaskPipeline({concurrency: 1}, packages, getPipeline(root), ['test']), false);
+
+        const lines = log();
+        assert.deepEqual([...lines].sort(), ['a#build production', 'a#test', 'b#build production']);
+        assert.ok(lines.indexOf('a#build production') < lines.indexOf('b#build production'));
+        assert.ok(lines.indexOf('a#build production') < lines.indexOf('a#test'));
+    });
+});
\ No newline at end of file
@@ -0,0 +1,39 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {processSpawn} from "@/utils";
+
+describe('processSpawn', () => {
+    let root: string;
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-spawn-'));
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('resolves with the output or rejects with the exit code', async () => {
+        assert.equal(await processSpawn('node', ['-e', 'console.log("done")'], {}), 'done\n');
+        await assert.rejects(processSpawn('node', ['-e', 'console.error("failed"); process.exit(3)'], {}), {stdout: '', stderr: 'failed\n', code: 3});
+    });
+
+    it('terminates the process with its children on abort', {skip: process.platform === 'win32'}, async () => {
+        const started = path.resolve(root, 'started');
+        const late = path.resolve(root, 'late');
+        const controller = new AbortController();
+        const done = processSpawn('sh', ['-c', `(sleep 0.3; echo late > ${late}) & echo started > ${started}; wait`], {signal: controller.signal});
+
+        while (!fs.existsSync(started)) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        controller.abort();
+        await assert.rejects(done);
+
+        await new Promise(resolve => setTimeout(resolve, 600));
+        assert.equal(fs.existsSync(late), false);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,87 @@
+import {describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {isWatchedFile, watchPackageCommand} from "@/watch";
+
+describe('isWatchedFile', () => {
+    it('ignores dependencies, git and output files', () => {
+        assert.equal(isWatchedFile('src/index.ts', ['dist/**']), true);
+        assert.equal(isWatchedFile('node_modules/a/index.js', ['dist/**']), false);
+        assert.equal(isWatchedFile('.git/HEAD', ['dist/**']), false);
+        assert.equal(isWatchedFile('dist/index.js', ['dist/**']), false);
+        assert.equal(isWatchedFile('src\\index.ts', ['src/**']), false);
+    });
+});
+
+describe('watchPackageCommand', () => {
+    it('re-runs the command in changed packages and their dependents', {timeout: 10000}, async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-watch-'));
+        const packages = ['a', 'b', 'c'].map(name => {
+            const file = path.resolve(root, name, 'package.json');
+            fs.mkdirSync(path.dirname(file));
+            fs.writeFileSync(file, JSON.stringify({name, dependencies: name === 'b' ? {a: '*'} : {}}));
+            return file;
+        });
+        const lines: string[] = [];
+        let watching: () => void;
+        const done = new Promise<void>(resolve => watching = resolve);
+        mock.method(console, 'log', (line: string) => {
+            lines.push(line);
+            if (line === 'Watching for changes...') {
+                watching();
+            }
+        });
+
+        const watcher = watchPackageCommand({debounce: 20}, packages, 'node', ['-e', '0']);
+        try {
+            fs.writeFileSync(path.resolve(root, 'a/index.js'), '');
+            await done;
+        } finally {
+            watcher.close();
+            mock.restoreAll();
+            fs.rmSync(root, {recursive: true, force: true});
+        }
+
+        assert.ok(lines.includes('Changed packages: a (changed index.js), b (depends on a)'), lines.join('\n'));
+        assert.ok(lines.some(line => line.startsWith('Package: a.')));
+        assert.ok(lines.some(line => line.startsWith('Package: b.')));
+        assert.ok(!lines.some(line => line.startsWith('Package: c.')));
+    });
+
+    it('ignores changes in dependencies and outputs, watches new directories', {timeout: 10000}, async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-watch-'));
+        const file = path.resolve(root, 'a', 'package.json');
+        for (const directory of ['src', 'dist', 'node_modules/x']) {
+            fs.mkdirSync(path.resolve(root, 'a', directory), {recursive: true});
+        }
+        fs.writeFileSync(file, JSON.stringify({name: 'a'}));
+        const lines: string[] = [];
+        const waitFor = async (runs: number) => {
+            for (let i = 0; i < 100 && lines.filter(line => line === 'Watching for changes...').length < runs; i++) {
+                await new Promise(resolve => setTimeout(resolve, 50));
+            }
+        };
+        mock.method(console, 'log', (line: string) => lines.push(line));
+
+        const watcher = watchPackageCommand({debounce: 20}, [file], 'node', ['-e', '0']);
+        try {
+            fs.writeFileSync(path.resolve(root, 'a/dist/index.js'), '');
+            fs.writeFileSync(path.resolve(root, 'a/node_modules/x/index.js'), '');
+            fs.mkdirSync(path.resolve(root, 'a/lib'));
+            await waitFor(1);
+            fs.writeFileSync(path.resolve(root, 'a/lib/index.js'), '');
+            await waitFor(2);
+        } finally {
+            watcher.close();
+            mock.restoreAll();
+            fs.rmSync(root, {recursive: true, force: true});
+        }
+
+        assert.deepEqual(lines.filter(line => line.startsWith('Changed packages:')), [
+            'Changed packages: a (changed lib)',
+            'Changed packages: a (changed lib/index.js)'
+        ]);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,94 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {getWorkspaceGlobs, getWorkspacePackages, resolveWorkspaceGlobs} from "@/workspace";
+import {getDependencyTarget, getDependencyTypes, getPackageDependencies} from "@/utils";
+
+/**
+ * Writes package.json with the given fields.
+ */
+function writePackage(root: string, directory: string, json: object): string {
+    const file = path.resolve(root, directory, 'package.json');
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, JSON.stringify(json));
+    return file;
+}
+
+describe('workspace packages', () => {
+    let root: string;
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-workspace-'));
+        writePackage(root, '.', {workspaces: ['./packages/*', 'tools/**', '!packages/private']});
+        writePackage(root, 'packages/a', {name: 'a'});
+        writePackage(root, 'packages/a/test/fixture', {name: 'fixture'});
+        writePackage(root, 'packages/private', {name: 'private'});
+        writePackage(root, 'packages/a/node_modules/dep', {name: 'dep'});
+        writePackage(root, 'tools/group/b', {name: 'b'});
+        writePackage(root, 'other/c', {name: 'c'});
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    const names = (files: string[]) => files.map(file => JSON.parse(fs.readFileSync(file, 'utf-8')).name).sort();
+
+    it('reads globs from the workspaces list or object', () => {
+        assert.deepEqual(getWorkspaceGlobs(root), ['./packages/*', 'tools/**', '!packages/private']);
+        writePackage(root, 'other', {workspaces: {packages: ['c']}});
+        assert.deepEqual(getWorkspaceGlobs(path.resolve(root, 'other')), ['c']);
+        assert.equal(getWorkspaceGlobs(path.resolve(root, 'packages/a')), null);
+    });
+
+    it('matches only the glob directories, without excluded and nested packages', () => {
+        assert.deepEqual(names(resolveWorkspaceGlobs(root, getWorkspaceGlobs(root))), ['a', 'b']);
+    });
+
+    it('searches an explicit packages directory recursively', () => {
+        assert.deepEqual(names(getWorkspacePackages(root)), ['a', 'b']);
+        assert.deepEqual(names(getWorkspacePackages(root, './packages')), ['a', 'fixture', 'private']);
+    });
+});
+
+describe('getPackageDependencies', () => {
+    let root: string;
+    let packages: string[];
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-run-dependencies-'));
+        packages = [
+            writePackage(root, 'a', {name: 'a'}),
+            writePackage(root, 'b', {name: 'b', dependencies: {a: 'workspace:^', external: '^1.0.0'}}),
+            writePackage(root, 'c', {name: 'c', devDependencies: {b: '*'}, peerDependencies: {a: '*'}}),
+            writePackage(root, 'd', {name: 'd', optionalDependencies: {alias: 'npm:c@^1.0.0'}})
+        ];
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('resolves aliased dependencies', () => {
+        assert.equal(getDependencyTarget('alias', 'npm:@scope/pkg@^1.0.0'), '@scope/pkg');
+        assert.equal(getDependencyTarget('alias', 'workspace:pkg@*'), 'pkg');
+        assert.equal(getDependencyTarget('pkg', 'workspace:^'), 'pkg');
+    });
+
+    it('scans all dependency fields by default', () => {
+        const graph = getPackageDependencies(packages);
+
+        assert.deepEqual(graph.deps, {a: [], b: ['a'], c: ['b', 'a'], d: ['c']});
+        assert.deepEqual(graph.edgeTypes.c, {b: 'devDependencies', a: 'peerDependencies'});
+        assert.deepEqual(graph.edgeTypes.d, {c: 'optionalDependencies'});
+    });
+
+    it('leaves out disabled dependency fields and unchecked packages', () => {
+        const types = getDependencyTypes({dev: false, optional: false});
+
+        assert.deepEqual(types, ['dependencies', 'peerDependencies']);
+        assert.deepEqual(getPackageDependencies(packages, ['b'], types).deps, {a: [], b: [], c: ['a'], d: []});
+    });
+});
\ No newline at end of file
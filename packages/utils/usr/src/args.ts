@@ -0,0 +1,383 @@
+import path from "path";
+import fs from "fs";
+import {fileURLToPath} from "url";
+
+/**
+ * Command line option value type
+ */
+export type CliOptionType = 'string' | 'number' | 'boolean';
+
+/**
+ * Command line option declaration
+ */
+export type CliOption = {
+    type: CliOptionType,
+    description?: string,
+    /**
+     * Alternative names, a single letter is used as `-x`, longer names as `--name`
+     */
+    alias?: string | readonly string[],
+    default?: string | number | boolean | readonly (string | number)[],
+    /**
+     * The option can be repeated, values are collected to a list
+     */
+    multiple?: boolean,
+    /**
+     * Allowed values
+     */
+    choices?: readonly string[],
+    /**
+     * Value name in the help output, e.g. `path`
+     */
+    placeholder?: string
+}
+
+/**
+ * Command line options by camelCase name, `dryRun` is passed as `--dry-run`
+ */
+export type CliOptions = Record<string, CliOption>;
+
+/**
+ * Command line interface declaration
+ */
+export type CliSchema<O extends CliOptions = CliOptions> = {
+    /**
+     * Command name, e.g. `monk-run`
+     */
+    name: string,
+    description?: string,
+    /**
+     * Usage lines without the command name, e.g. `[options] <command> [args...]`
+     */
+    usage?: readonly string[],
+    /**
+     * Version printed by `--version`, unless there is a `version` option
+     */
+    version?: string,
+    /**
+     * Subcommands with their descriptions
+     */
+    commands?: Record<string, string>,
+    options: O,
+    /**
+     * Everything after the first argument which isn't a subcommand is an argument, e.g. a command with its own options
+     */
+    stopEarly?: boolean
+}
+
+/**
+ * Value of a single occurrence of an option
+ */
+type CliOptionItem<O extends CliOption> = O extends { type: 'boolean' }
+    ? boolean
+    : O extends { type: 'number' }
+        ? number
+        : O extends { choices: readonly (infer C extends string)[] } ? C : string;
+
+/**
+ * Parsed option value
+ */
+export type CliOptionValue<O extends CliOption> = O extends { multiple: true } ? CliOptionItem<O>[] : CliOptionItem<O>;
+
+/**
+ * Parsed command line options, options without a default value can be missing
+ */
+export type CliEnv<O extends CliOptions> = {
+    -readonly [K in keyof O]: O[K] extends { default: unknown } ? CliOptionValue<O[K]> : CliOptionValue<O[K]> | undefined
+};
+
+/**
+ * Parsed command line
+ */
+export type CliArgs<O extends CliOptions> = {
+    env: CliEnv<O>,
+    args: string[],
+    /**
+     * `--help` was passed
+     */
+    help: boolean,
+    /**
+     * `--version` was passed
+     */
+    version: boolean
+}
+
+/**
+ * Declares a command line interface, option types are inferred from the declaration.
+ *
+ * @param schema Command line interface declaration.
+ */
+export function defineCli<const O extends CliOptions>(schema: CliSchema<O>): CliSchema<O> {
+    return schema;
+}
+
+/**
+ * Converts camelCase option name to its flag, e.g. `dryRun` => `--dry-run`.
+ *
+ * @param name Option name.
+ */
+export function getOptionFlag(name: string): string {
+    return name.length === 1 ? `-${name}` : `--${name.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`)}`;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and transpositions of adjacent characters.
+ *
+ * @param a First string.
+ * @param b Second string.
+ */
+function getEditDistance(a: string, b: string): number {
+    const distances: number[][] = Array.from({length: a.length + 1}, (_, i) => [i, ...Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) {
+        distances[0][j] = j;
+    }
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return distances[a.length][b.length];
+}
+
+/**
+ * Finds the closest candidate to a mistyped value.
+ *
+ * @param value Mistyped value.
+ * @param candidates Valid values.
+ * @returns Closest candidate, or `null` if none is close enough.
+ */
+export function getSuggestion(value: string, candidates: readonly string[]): string | null {
+    let suggestion: string | null = null;
+    let best = Math.max(1, Math.floor(value.replace(/^-+/, '').length / 3)) + 1;
+
+    for (const candidate of candidates) {
+        const distance = getEditDistance(value.toLowerCase(), candidate.toLowerCase());
+        if (distance < best) {
+            best = distance;
+            suggestion = candidate;
+        }
+    }
+    return suggestion;
+}
+
+/**
+ * Formats a "Did you mean" hint.
+ *
+ * @param value Mistyped value.
+ * @param candidates Valid values.
+ */
+function formatSuggestion(value: string, candidates: readonly string[]): string {
+    const suggestion = getSuggestion(value, candidates);
+    return suggestion != null ? `. Did you mean ${suggestion}?` : '';
+}
+
+/**
+ * Converts a raw option value to the option type.
+ *
+ * @param flag Option flag, for error messages.
+ * @param option Option declaration.
+ * @param value Raw value.
+ * @throws Error if the value doesn't match the option type or choices.
+ */
+function convertOptionValue(flag: string, option: CliOption, value: string): string | number | boolean {
+    switch (option.type) {
+        case 'boolean':
+            if (!/^(true|false)$/i.test(value)) {
+                throw new Error(`Option ${flag} expects true or false, got "${value}"`);
+            }
+            return value.toLowerCase() === 'true';
+        case 'number': {
+            const number = Number(value);
+            if (value.trim() === '' || Number.isNaN(number)) {
+                throw new Error(`Option ${flag} expects a number, got "${value}"`);
+            }
+            return number;
+        }
+        default:
+            if (option.choices != null && !option.choices.includes(value)) {
+                throw new Error(`Invalid value "${value}" for ${flag}, expected one of: ${option.choices.join(', ')}${formatSuggestion(value, option.choices)}`);
+            }
+            return value;
+    }
+}
+
+/**
+ * Parses process arguments by a command line interface declaration. Values are never guessed:
+ * strings stay strings (`--version 1.10`), numbers and booleans are validated.
+ * Boolean options take an optional `true` or `false` value, `--` ends the options.
+ *
+ * @param schema Command line interface declaration.
+ * @param processArgs The list of process arguments, typically including script name and its parameters.
+ * @throws Error on unknown options, missing or invalid values, with suggestions for mistyped names.
+ */
+export function parseCliArgs<O extends CliOptions>(schema: CliSchema<O>, processArgs: string[]): CliArgs<O> {
+    const flags = new Map<string, string>();
+    for (const [name, option] of Object.entries(schema.options)) {
+        flags.set(getOptionFlag(name), name);
+        for (const alias of typeof option.alias === 'string' ? [option.alias] : option.alias ?? []) {
+            flags.set(getOptionFlag(alias), name);
+        }
+    }
+    const hasVersion = schema.version != null && !flags.has('--version');
+
+    const env: Record<string, unknown> = {};
+    const args: string[] = [];
+    let help = false;
+    let version = false;
+    let optionsEnded = false;
+
+    // Skip first two argument, basically its node path and file path
+    for (let i = 2; i < processArgs.length; i++) {
+        const arg = processArgs[i];
+        if (optionsEnded || !arg.startsWith('-') || arg === '-' || /^-\d/.test(arg)) {
+            args.push(arg);
+            // The command and its own options are passed as is
+            if (schema.stopEarly && !(args.length === 1 && schema.commands?.[arg] != null)) {
+                optionsEnded = true;
+            }
+            continue;
+        }
+        if (arg === '--') {
+            optionsEnded = true;
+            continue;
+        }
+
+        const separator = arg.indexOf('=');
+        const flag = separator === -1 ? arg : arg.substring(0, separator);
+        const inline = separator === -1 ? null : arg.substring(separator + 1);
+        const name = flags.get(flag);
+
+        if (name == null) {
+            if ((flag === '--help' || flag === '-h') && inline == null) {
+                help = true;
+                continue;
+            }
+            if (flag === '--version' && hasVersion && inline == null) {
+                version = true;
+                continue;
+            }
+            const candidates = [...flags.keys(), '--help', ...(hasVersion ? ['--version'] : [])];
+            throw new Error(`Unknown option ${flag}${formatSuggestion(flag, candidates)}`);
+        }
+
+        const option = schema.options[name];
+        let raw: string;
+        if (inline != null) {
+            raw = inline;
+        } else if (option.type === 'boolean') {
+            // Only an explicit boolean is taken as the value, anything else is an argument
+            raw = /^(true|false)$/i.test(processArgs[i + 1] ?? '') ? processArgs[++i] : 'true';
+        } else if (i + 1 < processArgs.length && !flags.has(processArgs[i + 1].split('=')[0])) {
+            raw = processArgs[++i];
+        } else {
+            throw new Error(`Option ${flag} requires a value`);
+        }
+
+        const value = convertOptionValue(flag, option, raw);
+        if (option.multiple) {
+            env[name] = [...(env[name] as unknown[] ?? []), value];
+        } else {
+            env[name] = value;
+        }
+    }
+
+    for (const [name, option] of Object.entries(schema.options)) {
+        if (env[name] === undefined && option.default !== undefined) {
+            env[name] = Array.isArray(option.default) ? [...option.default] : option.default;
+        }
+    }
+
+    return {env: env as CliEnv<O>, args, help, version};
+}
+
+/**
+ * Formats the help output: usage, description, subcommands and options.
+ *
+ * @param schema Command line interface declaration.
+ */
+export function formatCliHelp(schema: CliSchema): string {
+    const lines: string[] = [];
+    const usage = schema.usage ?? ['[options]'];
+    usage.forEach((line, index) => lines.push(`${index === 0 ? 'Usage: ' : '       '}${schema.name} ${line}`));
+    if (schema.description) {
+        lines.push('', schema.description);
+    }
+
+    const table = (rows: [string, string][]) => {
+        const width = Math.max(...rows.map(([name]) => name.length));
+        return rows.map(([name, description]) => `  ${name.padEnd(width)}  ${description}`.trimEnd());
+    };
+
+    if (schema.commands != null && Object.keys(schema.commands).length > 0) {
+        lines.push('', 'Commands:', ...table(Object.entries(schema.commands)));
+    }
+
+    const rows: [string, string][] = Object.entries(schema.options).map(([name, option]) => {
+        const aliases = typeof option.alias === 'string' ? [option.alias] : option.alias ?? [];
+        const names = [...aliases.filter(alias => alias.length === 1), name, ...aliases.filter(alias => alias.length > 1)].map(getOptionFlag);
+        // Boolean options enabled by default are turned off with an explicit `false`
+        const value = option.type === 'boolean'
+            ? option.default === true ? ' [true|false]' : ''
+            : ` <${option.placeholder ?? option.choices?.join('|') ?? option.type}>`;
+        const details = [
+            option.default !== undefined ? `default: ${Array.isArray(option.default) ? option.default.join(', ') : option.default}` : null,
+            option.multiple ? 'repeatable' : null
+        ].filter(detail => detail != null);
+        return [`${names.join(', ')}${value}`, `${option.description ?? ''}${details.length > 0 ? ` (${details.join('; ')})` : ''}`];
+    });
+    rows.push(['-h, --help', 'Show help']);
+    if (schema.version != null && schema.options.version == null) {
+        rows.push(['--version', 'Show version']);
+    }
+    lines.push('', 'Options:', ...table(rows));
+
+    return lines.join('\n');
+}
+
+/**
+ * Parses process arguments of a command line interface. Prints the help or version and exits when asked,
+ * prints the error and exits with a failure code on invalid arguments.
+ *
+ * @param schema Command line interface declaration.
+ * @param processArgs The list of process arguments, `process.argv` by default.
+ */
+export function getCliArgs<O extends CliOptions>(schema: CliSchema<O>, processArgs: string[] = process.argv): CliArgs<O> {
+    let parsed: CliArgs<O>;
+    try {
+        parsed = parseCliArgs(schema, processArgs);
+    } catch (e: unknown) {
+        console.error((e as Error).message);
+        console.error(`Run "${schema.name} --help" for usage.`);
+        process.exit(1);
+    }
+
+    if (parsed.help) {
+        console.log(formatCliHelp(schema));
+        process.exit(0);
+    }
+    if (parsed.version) {
+        console.log(schema.version);
+        process.exit(0);
+    }
+    return parsed;
+}
+
+/**
+ * Reads the version of the package a file belongs to, from the nearest package.json.
+ *
+ * @param __file The path or URL of the file (usually import.meta.url).
+ * @returns Package version, or `undefined` if there is no package.json.
+ */
+export function getPackageVersion(__file: string): string | undefined {
+    let directory = path.dirname(__file.startsWith('file:') ? fileURLToPath(__file) : path.resolve(__file));
+    while (!fs.existsSync(path.resolve(directory, 'package.json')) && directory !== path.dirname(directory)) {
+        directory = path.dirname(directory);
+    }
+    const file = path.resolve(directory, 'package.json');
+
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')).version : undefined;
+}
\ No newline at end of file
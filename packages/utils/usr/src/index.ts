@@ -1 +1,3 @@
-export * from '@/utils';
\ No newline at end of file
+export * from '@/utils';
+export * from '@/args';
+export * from '@/json';
\ No newline at end of file
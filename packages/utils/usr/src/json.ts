@@ -0,0 +1,41 @@
+/**
+ * JSON file formatting detected from its content
+ */
+export type JsonFormat = {
+    /**
+     * Indentation unit, e.g. two spaces or a tab
+     */
+    indent: string,
+    /**
+     * Line ending, `\r\n` if the file has any, otherwise `\n`
+     */
+    eol: string,
+    /**
+     * Whether the file ends with a line ending
+     */
+    finalNewline: boolean
+}
+
+/**
+ * Detects JSON file formatting, two spaces and `\n` are used for files without indented lines.
+ *
+ * @param content JSON file content.
+ */
+export function getJsonFormat(content: string): JsonFormat {
+    return {
+        indent: /^([ \t]+)\S/m.exec(content)?.[1] ?? '  ',
+        eol: content.includes('\r\n') ? '\r\n' : '\n',
+        finalNewline: /\n$/.test(content)
+    };
+}
+
+/**
+ * Serializes a value as JSON with the given formatting. Object key order is kept as is.
+ *
+ * @param value JSON value.
+ * @param format JSON formatting.
+ */
+export function formatJson(value: unknown, format: JsonFormat): string {
+    const json = JSON.stringify(value, null, format.indent).replace(/\n/g, format.eol);
+    return format.finalNewline ? json + format.eol : json;
+}
\ No newline at end of file
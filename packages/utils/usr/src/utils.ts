@@ -48,6 +48,7 @@ export function convertToCamelCase(value: string, delim: string = '_'): string {
  * @returns An object containing:
  *         - `env`: A partial object mapping parameter keys to their corresponding values or flags.
  *         - `args`: An array of standalone argument values derived from the input.
+ * @deprecated Use `getCliArgs` with a declared schema, values are not guessed from strings there.
  */
 export function getProcessArgs<Env extends ScriptEnv = ScriptEnv, Args extends ScriptEnvValue[] = ScriptEnvValue[]>(processArgs: string[]): {
     env: Partial<Env>,
@@ -126,15 +127,19 @@ export function getProcessArgs<Env extends ScriptEnv = ScriptEnv, Args extends S
  * Recursively find all files in a given directory.
  * @param directory Target directory
  * @param basePath Base path for resolution
+ * @param ignore Optional callback, files and directories for which it returns `true` are skipped
  */
-export function getFileList(directory: string, basePath: string): string[] {
+export function getFileList(directory: string, basePath: string, ignore?: (itemPath: string, isDirectory: boolean) => boolean): string[] {
     const allFiles: string[] = [];
     const dirItems = fs.readdirSync(path.resolve(basePath, directory), {withFileTypes: true});
 
     for (const item of dirItems) {
         const itemPath = path.resolve(basePath, path.join(directory, item.name));
+        if (ignore?.(itemPath, item.isDirectory())) {
+            continue;
+        }
         if (item.isDirectory()) {
-            allFiles.push(...getFileList(path.join(directory, item.name), basePath));
+            allFiles.push(...getFileList(path.join(directory, item.name), basePath, ignore));
         } else {
             allFiles.push(itemPath);
         }
@@ -143,6 +148,69 @@ export function getFileList(directory: string, basePath: string): string[] {
     return allFiles;
 }
 
+/**
+ * Converts a glob pattern to a regular expression.
+ * Supports `**` (any path), `*` (any characters except `/`), `?` (single character except `/`)
+ * and `{a,b}` alternatives.
+ *
+ * @param pattern The glob pattern.
+ * @returns The regular expression matching the whole value.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let result = '';
+    let group = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        switch (char) {
+            case '*':
+                if (pattern[i + 1] === '*') {
+                    // "**/" also matches zero directories
+                    if (pattern[i + 2] === '/') {
+                        result += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        result += '.*';
+                        i++;
+                    }
+                } else {
+                    result += '[^/]*';
+                }
+                break;
+            case '?':
+                result += '[^/]';
+                break;
+            case '{':
+                group++;
+                result += '(?:';
+                break;
+            case '}':
+                if (group > 0) {
+                    group--;
+                    result += ')';
+                } else {
+                    result += '\\}';
+                }
+                break;
+            case ',':
+                result += group > 0 ? '|' : ',';
+                break;
+            default:
+                result += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${result}$`);
+}
+
+/**
+ * Checks whether a value matches at least one of the given glob patterns.
+ *
+ * @param value The value to test, e.g. a relative file path or a package name.
+ * @param patterns Glob pattern or list of glob patterns.
+ */
+export function matchGlob(value: string, patterns: string | string[]): boolean {
+    return (Array.isArray(patterns) ? patterns : [patterns]).some(pattern => globToRegExp(pattern).test(value));
+}
+
 /**
  * Retrieves constants related to the current file's path including its filename, directory,
  * root directory, and an optional relative path.
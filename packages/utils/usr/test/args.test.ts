@@ -0,0 +1,61 @@
+import {describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {defineCli, parseCliArgs} from "@/args";
+
+const cli = defineCli({
+    name: 'monk-test',
+    version: '1.0.0',
+    commands: {graph: 'Print the graph'},
+    options: {
+        dryRun: {type: 'boolean', alias: 'd'},
+        threads: {type: 'number', default: 2},
+        format: {type: 'string', choices: ['text', 'json']},
+        entry: {type: 'string', multiple: true},
+        version: {type: 'string'}
+    },
+    stopEarly: true
+});
+
+const parse = (...args: string[]) => parseCliArgs(cli, ['node', 'cli.js', ...args]);
+
+describe('parseCliArgs', () => {
+    it('parses typed options and keeps defaults', () => {
+        assert.deepEqual(parse('--dry-run', '--format=json').env, {dryRun: true, format: 'json', threads: 2});
+        assert.equal(parse('--threads', '4').env.threads, 4);
+    });
+
+    it('keeps string values as is', () => {
+        assert.equal(parse('--version', '1.10').env.version, '1.10');
+    });
+
+    it('takes only an explicit boolean as the value', () => {
+        assert.deepEqual(parse('-d', 'false', 'build'), {env: {dryRun: false, threads: 2}, args: ['build'], help: false, version: false});
+        assert.deepEqual(parse('-d', 'build').args, ['build']);
+    });
+
+    it('collects multiple values', () => {
+        assert.deepEqual(parse('--entry', 'a.ts', '--entry=b.ts').env.entry, ['a.ts', 'b.ts']);
+    });
+
+    it('passes the command options as arguments', () => {
+        assert.deepEqual(parse('-d', 'yarn', 'build', '--threads', '8').args, ['yarn', 'build', '--threads', '8']);
+        assert.deepEqual(parse('graph', '--format', 'json').env.format, 'json');
+        assert.deepEqual(parse('--', '--threads').args, ['--threads']);
+    });
+
+    it('detects help', () => {
+        assert.equal(parse('--help').help, true);
+        assert.equal(parse('-h').help, true);
+    });
+
+    it('rejects unknown options with a suggestion', () => {
+        assert.throws(() => parse('--dry-rn'), /Unknown option --dry-rn\. Did you mean --dry-run\?/);
+    });
+
+    it('rejects invalid values', () => {
+        assert.throws(() => parse('--threads', 'many'), /Option --threads expects a number, got "many"/);
+        assert.throws(() => parse('--dry-run=yes'), /Option --dry-run expects true or false, got "yes"/);
+        assert.throws(() => parse('--format', 'xml'), /Invalid value "xml" for --format, expected one of: text, json/);
+        assert.throws(() => parse('--format'), /Option --format requires a value/);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,17 @@
+import {describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {formatJson, getJsonFormat} from "@/json";
+
+describe('JSON formatting', () => {
+    it('detects indentation, line endings and the final newline', () => {
+        assert.deepEqual(getJsonFormat('{\r\n\t"a": 1\r\n}\r\n'), {indent: '\t', eol: '\r\n', finalNewline: true});
+        assert.deepEqual(getJsonFormat('{\n    "a": 1\n}'), {indent: '    ', eol: '\n', finalNewline: false});
+        assert.deepEqual(getJsonFormat('{}'), {indent: '  ', eol: '\n', finalNewline: false});
+    });
+
+    it('writes JSON back in the detected format', () => {
+        const content = '{\r\n\t"b": 1,\r\n\t"a": [\r\n\t\t2\r\n\t]\r\n}\r\n';
+
+        assert.equal(formatJson(JSON.parse(content), getJsonFormat(content)), content);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,53 @@
+import {describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {globToRegExp, matchGlob} from "@/utils";
+
+describe('globToRegExp', () => {
+    it('matches any characters except slash with a single star', () => {
+        const regExp = globToRegExp('src/*.ts');
+
+        assert.ok(regExp.test('src/index.ts'));
+        assert.ok(!regExp.test('src/lib/index.ts'));
+        assert.ok(!regExp.test('src/index.tsx'));
+    });
+
+    it('matches any path with a double star', () => {
+        const regExp = globToRegExp('src/**/*.ts');
+
+        assert.ok(regExp.test('src/index.ts'));
+        assert.ok(regExp.test('src/lib/deep/index.ts'));
+        assert.ok(globToRegExp('dist/**').test('dist/lib/index.js'));
+    });
+
+    it('matches a single character with a question mark', () => {
+        const regExp = globToRegExp('file?.js');
+
+        assert.ok(regExp.test('file1.js'));
+        assert.ok(!regExp.test('file10.js'));
+        assert.ok(!regExp.test('file/.js'));
+    });
+
+    it('matches alternatives', () => {
+        const regExp = globToRegExp('*.{js,mjs}');
+
+        assert.ok(regExp.test('index.js'));
+        assert.ok(regExp.test('index.mjs'));
+        assert.ok(!regExp.test('index.cjs'));
+    });
+
+    it('escapes regular expression characters', () => {
+        const regExp = globToRegExp('@monk-js/(utils)+.json');
+
+        assert.ok(regExp.test('@monk-js/(utils)+.json'));
+        assert.ok(!regExp.test('@monk-js/utilsX.json'));
+    });
+});
+
+describe('matchGlob', () => {
+    it('matches any of the patterns', () => {
+        assert.ok(matchGlob('dist/index.js', ['src/**', 'dist/**']));
+        assert.ok(matchGlob('README.md', '*.md'));
+        assert.ok(!matchGlob('src/index.ts', ['dist/**']));
+        assert.ok(!matchGlob('src/index.ts', []));
+    });
+});
\ No newline at end of file
@@ -0,0 +1,105 @@
+import path from "path";
+import fs from "fs";
+import {ConventionalCommit, PackageChange, PackageRelease} from "@/commits";
+import {ReleaseType} from "@/semver";
+import {writeFileChanges} from "@/files";
+
+/**
+ * Changelog file name
+ */
+export const CHANGELOG_FILE = 'CHANGELOG.md';
+
+/**
+ * Changelog file title
+ */
+const CHANGELOG_TITLE = '# Changelog';
+
+/**
+ * Changelog sections by commit type
+ */
+const CHANGELOG_SECTIONS: Record<string, string> = {
+    feat: 'Features',
+    fix: 'Bug Fixes',
+    perf: 'Performance Improvements'
+};
+
+/**
+ * Changelog sections by changeset release type
+ */
+const CHANGE_SECTIONS: Partial<Record<ReleaseType, string>> = {
+    major: 'Major Changes',
+    minor: 'Minor Changes',
+    patch: 'Patch Changes'
+};
+
+/**
+ * Formats a changelog item of a changeset summary, the following summary lines are indented.
+ *
+ * @param change Package change.
+ */
+function formatChange(change: PackageChange): string {
+    return `* ${change.summary.trim().replace(/\r?\n/g, '\n  ')}`;
+}
+
+/**
+ * Formats a changelog line of a commit, e.g. `* **runner:** add watch mode (1a2b3c4)`.
+ *
+ * @param commit Parsed commit.
+ * @param text Line text, the commit subject by default.
+ */
+function formatCommit(commit: ConventionalCommit, text = commit.subject): string {
+    const scope = commit.scope ? `**${commit.scope}:** ` : '';
+    return `* ${scope}${text} (${commit.hash.substring(0, 7)})`;
+}
+
+/**
+ * Renders a changelog entry of a package release.
+ *
+ * @param release Package release.
+ * @param releases All releases by package name, used to list new dependency versions.
+ * @param date Release date.
+ */
+export function renderChangelogEntry(release: PackageRelease, releases: Record<string, PackageRelease>, date = new Date()): string {
+    const lines = [`## ${release.newVersion} (${date.toISOString().substring(0, 10)})`];
+    const addSection = (title: string, items: string[]) => {
+        if (items.length > 0) {
+            lines.push('', `### ${title}`, '', ...items);
+        }
+    };
+
+    for (const type of Object.keys(CHANGE_SECTIONS) as ReleaseType[]) {
+        addSection(CHANGE_SECTIONS[type], release.changes
+            .filter(change => change.release === type)
+            .map(formatChange));
+    }
+    addSection('Breaking Changes', release.commits
+        .filter(commit => commit.breaking != null)
+        .map(commit => formatCommit(commit, commit.breaking)));
+    for (const type of Object.keys(CHANGELOG_SECTIONS)) {
+        addSection(CHANGELOG_SECTIONS[type], release.commits
+            .filter(commit => commit.type === type)
+            .map(commit => formatCommit(commit)));
+    }
+    addSection('Dependencies', release.dependencies
+        .map(dep => `* ${dep} updated to ${releases[dep]?.newVersion}`));
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Prepends an entry to the package changelog, the file is created if it doesn't exist.
+ *
+ * @param directory Package directory.
+ * @param entry Changelog entry.
+ * @param dryRun Print the diff without writing.
+ */
+export function writeChangelog(directory: string, entry: string, dryRun = false): void {
+    const file = path.resolve(directory, CHANGELOG_FILE);
+    const content = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : '';
+    // Keep the file title above the entries
+    const title = /^# .*\r?\n+/.exec(content);
+    const header = title ? title[0] : `${CHANGELOG_TITLE}\n\n`;
+    const rest = title ? content.substring(title[0].length) : content;
+
+    writeFileChanges(file, `${header}${entry}${rest !== '' ? `\n${rest}` : ''}`, dryRun);
+}
\ No newline at end of file
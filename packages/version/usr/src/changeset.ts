@@ -0,0 +1,216 @@
+import path from "path";
+import fs from "fs";
+import {randomBytes} from "node:crypto";
+import {createInterface} from "node:readline/promises";
+import {getChangedFiles, getOwningPackage, PackageJson} from "@monk-js/runner";
+import {addDependentReleases, getHighestRelease, PackageRelease} from "@/commits";
+import {incrementVersion, ReleaseType} from "@/semver";
+
+/**
+ * Changeset files directory, relative to the workspace root
+ */
+export const CHANGESET_DIR = '.changeset';
+
+/**
+ * Release types allowed in changesets
+ */
+const CHANGESET_RELEASES: ReleaseType[] = ['major', 'minor', 'patch'];
+
+/**
+ * Changeset: release types by package name and a summary of the change
+ */
+export type Changeset = {
+    /**
+     * Changeset file path, `null` if the changeset is not written yet
+     */
+    file: string | null,
+    releases: Record<string, ReleaseType>,
+    summary: string
+}
+
+/**
+ * Parses a changeset file: a front matter with `"package": bump` lines followed by the markdown summary.
+ *
+ * @param content Changeset file content.
+ * @param file Changeset file path.
+ * @throws Error if the changeset is malformed.
+ */
+export function parseChangeset(content: string, file: string | null = null): Changeset {
+    const match = /^---\r?\n([\s\S]*?)\r?\n?---\r?\n?([\s\S]*)$/.exec(content.trim());
+    if (!match) {
+        throw new Error(`Changeset${file != null ? ` ${file}` : ''} has no front matter`);
+    }
+    const releases: Record<string, ReleaseType> = {};
+
+    for (const line of match[1].split(/\r?\n/).filter(line => line.trim() !== '')) {
+        const release = /^\s*["']?(.+?)["']?\s*:\s*(\w+)\s*$/.exec(line);
+        if (!release || !CHANGESET_RELEASES.includes(release[2] as ReleaseType)) {
+            throw new Error(`Changeset${file != null ? ` ${file}` : ''}: invalid release "${line.trim()}", expected "package": ${CHANGESET_RELEASES.join(' | ')}`);
+        }
+        releases[release[1]] = release[2] as ReleaseType;
+    }
+
+    return {file, releases, summary: match[2].trim()};
+}
+
+/**
+ * Formats a changeset file content.
+ *
+ * @param changeset Changeset.
+ */
+export function formatChangeset(changeset: Changeset): string {
+    const releases = Object.keys(changeset.releases).map(name => `${JSON.stringify(name)}: ${changeset.releases[name]}`);
+    return ['---', ...releases, '---', '', changeset.summary.trim(), ''].join('\n');
+}
+
+/**
+ * Reads pending changesets.
+ *
+ * @param root Workspace root directory.
+ */
+export function readChangesets(root: string): Changeset[] {
+    const directory = path.resolve(root, CHANGESET_DIR);
+    if (!fs.existsSync(directory)) {
+        return [];
+    }
+
+    return fs.readdirSync(directory)
+        .filter(name => name.endsWith('.md') && name.toLowerCase() !== 'readme.md')
+        .sort()
+        .map(name => path.resolve(directory, name))
+        .map(file => parseChangeset(fs.readFileSync(file, 'utf-8'), file));
+}
+
+/**
+ * Writes a changeset file with a name derived from its summary.
+ *
+ * @param root Workspace root directory.
+ * @param changeset Changeset.
+ * @returns Changeset file path.
+ */
+export function writeChangeset(root: string, changeset: Changeset): string {
+    const directory = path.resolve(root, CHANGESET_DIR);
+    const slug = changeset.summary.toLowerCase().split(/[^a-z0-9]+/).filter(word => word !== '').slice(0, 5).join('-');
+    const file = path.resolve(directory, `${slug ? `${slug}-` : ''}${randomBytes(3).toString('hex')}.md`);
+
+    fs.mkdirSync(directory, {recursive: true});
+    fs.writeFileSync(file, formatChangeset(changeset));
+    return file;
+}
+
+/**
+ * Parses package release arguments, e.g. `@monk-js/utils:minor` or `@monk-js/utils` with the default release type.
+ *
+ * @param args Package release arguments.
+ * @param release Default release type.
+ */
+export function parseChangesetReleases(args: string[], release: ReleaseType): Record<string, ReleaseType> {
+    const releases: Record<string, ReleaseType> = {};
+
+    for (const arg of args) {
+        const match = /^(.+?)(?::(\w+))?$/.exec(arg);
+        const type = (match[2] ?? release) as ReleaseType;
+        if (!CHANGESET_RELEASES.includes(type)) {
+            throw new Error(`Invalid release type "${type}" of ${match[1]}, expected one of: ${CHANGESET_RELEASES.join(', ')}`);
+        }
+        releases[match[1]] = type;
+    }
+
+    return releases;
+}
+
+/**
+ * Creates a changeset. Missing packages, release type or summary are asked interactively when the terminal allows it.
+ *
+ * @param root Workspace root directory.
+ * @param names Workspace package names.
+ * @param args Package release arguments, e.g. `@monk-js/utils:minor`.
+ * @param release Default release type.
+ * @param summary Change summary.
+ * @returns Changeset file path.
+ * @throws Error if a package is unknown or the changeset is incomplete.
+ */
+export async function addChangeset(root: string, names: string[], args: string[], release?: ReleaseType, summary?: string): Promise<string> {
+    const prompt = process.stdin.isTTY ? createInterface({input: process.stdin, output: process.stdout}) : null;
+
+    try {
+        if (args.length === 0 && prompt != null) {
+            console.log(`Packages: ${names.join(', ')}`);
+            args = (await prompt.question('Packages to release (comma separated, "name:bump" to override the bump): '))
+                .split(',').map(arg => arg.trim()).filter(arg => arg !== '');
+        }
+        if (release == null && prompt != null && args.some(arg => !arg.includes(':'))) {
+            release = ((await prompt.question(`Bump type (${CHANGESET_RELEASES.join(', ')}) [patch]: `)).trim() || 'patch') as ReleaseType;
+        }
+        if (!summary && prompt != null) {
+            summary = (await prompt.question('Summary: ')).trim();
+        }
+    } finally {
+        prompt?.close();
+    }
+
+    const releases = parseChangesetReleases(args, release ?? 'patch');
+    const unknown = Object.keys(releases).filter(name => !names.includes(name));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown packages: ${unknown.join(', ')}`);
+    }
+    if (Object.keys(releases).length === 0 || !summary) {
+        throw new Error(`Changeset needs at least one package and a summary, e.g. monk-version add --bump minor --summary "Add watch mode" @monk-js/runner`);
+    }
+
+    return writeChangeset(root, {file: null, releases, summary});
+}
+
+/**
+ * Computes releases from changesets: every package gets the highest release type of its changesets,
+ * and packages depending on released packages get a patch release.
+ *
+ * @param packages Package file list.
+ * @param changesets Pending changesets.
+ * @returns Releases by package name.
+ * @throws Error if a changeset refers to an unknown package.
+ */
+export function getChangesetReleases(packages: string[], changesets: Changeset[]): Record<string, PackageRelease> {
+    const infos: Record<string, PackageJson & { file: string }> = {};
+    for (const file of packages) {
+        const packageInfo: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        infos[packageInfo.name] = {...packageInfo, file};
+    }
+    const releases: Record<string, PackageRelease> = {};
+
+    for (const changeset of changesets) {
+        for (const [name, release] of Object.entries(changeset.releases)) {
+            if (!Object.hasOwn(infos, name)) {
+                throw new Error(`Changeset ${changeset.file}: unknown package ${name}`);
+            }
+            const {file, version} = infos[name];
+            releases[name] ??= {file, name, version, newVersion: version, release, commits: [], changes: [], dependencies: []};
+            releases[name].release = getHighestRelease(releases[name].release, release);
+            releases[name].newVersion = incrementVersion(version, releases[name].release);
+            releases[name].changes.push({release, summary: changeset.summary});
+        }
+    }
+
+    return addDependentReleases(packages, releases);
+}
+
+/**
+ * Lists packages changed since a git ref that have no pending changeset.
+ *
+ * @param root Workspace root directory.
+ * @param packages Package file list.
+ * @param changesets Pending changesets.
+ * @param since Git ref to compare with.
+ * @returns Package names.
+ */
+export async function getPackagesWithoutChangeset(root: string, packages: string[], changesets: Changeset[], since: string): Promise<string[]> {
+    const changed = new Set<string>();
+    for (const file of await getChangedFiles(since, root)) {
+        const owner = getOwningPackage(packages, file);
+        if (owner != null) {
+            changed.add(JSON.parse(fs.readFileSync(owner, 'utf-8')).name);
+        }
+    }
+
+    return [...changed].filter(name => !changesets.some(changeset => Object.hasOwn(changeset.releases, name))).sort();
+}
\ No newline at end of file
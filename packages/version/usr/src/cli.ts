@@ -1,23 +1,109 @@
 #! /usr/bin/env node
 
-import * as path from 'path';
-import {getFileConstants, getFileList, getProcessArgs} from "@monk-js/utils";
-import {updatePackageVersion, VersionEnv} from "@/utils";
+import {defineCli, getCliArgs, getFileConstants, getSuggestion} from "@monk-js/utils";
+import {CommandLineError, getPackageDependencies, getWorkspacePackages} from "@monk-js/runner";
+import {
+    getBumpedVersions,
+    PackageVersions,
+    printChangesetStatus,
+    updateChangesetVersions,
+    updateIndependentVersions,
+    updatePackageVersion
+} from "@/utils";
+import {addChangeset} from "@/changeset";
+import {RELEASE_TYPES} from "@/semver";
 import * as process from "node:process";
 
-const {env, args} = getProcessArgs<VersionEnv>(process.argv);
+const cli = defineCli({
+    name: 'monk-version',
+    description: 'Update versions of the workspace packages and their dependents',
+    usage: ['[options] --version <version> | --bump <release>', '[options] --independent', 'add [options] [packages...]', 'status [options]', 'version [options]'],
+    commands: {
+        add: 'Describe a change in a .changeset/*.md file, packages are "name" or "name:bump"',
+        status: 'Show pending releases, fail if changed packages have no changeset',
+        version: 'Apply pending changesets'
+    },
+    options: {
+        root: {type: 'string', placeholder: 'path', description: 'Workspace root directory'},
+        packages: {type: 'string', placeholder: 'path', description: 'Packages directory, instead of the root package.json workspaces'},
+        version: {type: 'string', description: 'Set version of every package'},
+        bump: {type: 'string', choices: RELEASE_TYPES, description: 'Bump version of every package from its current version'},
+        preid: {type: 'string', description: 'Prerelease identifier, e.g. beta'},
+        independent: {type: 'boolean', description: 'Release packages from Conventional Commits since their last tag'},
+        summary: {type: 'string', placeholder: 'text', description: 'Changeset summary'},
+        since: {type: 'string', placeholder: 'ref', description: 'Changeset status base git ref'},
+        dryRun: {type: 'boolean', description: 'Print a diff of every file that would change, without writing'}
+    }
+});
+
+const {env, args} = getCliArgs(cli);
+
+const {__root} = getFileConstants(import.meta.url, env.root ?? process.cwd());
 
-const {__root, __dirname} = getFileConstants(import.meta.url, env.root ?? process.cwd());
+// `add`, `status` and `version` subcommands manage changesets
+const command = args.shift();
 
-env.packages ??= './packages';
+/**
+ * Prints the error and exits with a failure code
+ * @param e Command line or validation error
+ */
+function exitWithError(e: unknown): never {
+    const error = e as CommandLineError;
+    console.error(error?.stderr || error?.stdout || (e as Error)?.message || error);
+    process.exit(1);
+}
 
-if (env.version != null) {
-    // Filtered list of `package.json` files from a specified directory.
-    const packages: string[] = getFileList(path.resolve(__root, env.packages), __dirname)
-        .filter((file: string) => !path.dirname(file).includes('node_modules') && path.basename(file) === 'package.json');
+// List of `package.json` files from the root workspaces globs or a specified directory.
+const packages: string[] = getWorkspacePackages(__root, env.packages);
+
+if (command === 'add') {
+    try {
+        const names = Object.values(getPackageDependencies(packages, true).files);
+        const file = await addChangeset(__root, names, args, env.bump, env.summary);
+        console.log(`Changeset created: ${file}`);
+    } catch (e: unknown) {
+        exitWithError(e);
+    }
+} else if (command === 'status') {
+    try {
+        if (!await printChangesetStatus(__root, packages, env.since)) {
+            process.exit(1);
+        }
+    } catch (e: unknown) {
+        exitWithError(e);
+    }
+} else if (command === 'version') {
+    try {
+        // If result has errors
+        if (await updateChangesetVersions(__root, packages, !!env.dryRun) !== false) {
+            process.exit(1)
+        }
+    } catch (e: unknown) {
+        exitWithError(e);
+    }
+} else if (command != null) {
+    const suggestion = getSuggestion(command, Object.keys(cli.commands));
+    exitWithError(`Unknown command "${command}", expected one of: add, status, version${suggestion != null ? `. Did you mean ${suggestion}?` : ''}`);
+} else if (env.independent) {
+    try {
+        // If result has errors
+        if (await updateIndependentVersions(__root, packages, !!env.dryRun) !== false) {
+            process.exit(1)
+        }
+    } catch (e: unknown) {
+        exitWithError(e);
+    }
+} else if (env.version != null || env.bump != null) {
+    let version: string | PackageVersions;
+    try {
+        // An explicit version is used as is, a bump is computed from the current version of each package
+        version = env.bump != null ? getBumpedVersions(packages, env.bump, env.preid) : env.version;
+    } catch (e: unknown) {
+        exitWithError(e);
+    }
 
     // If result has errors
-    if (await updatePackageVersion(packages, env.version) !== false) {
+    if (await updatePackageVersion(packages, version, !!env.dryRun) !== false) {
         process.exit(1)
     }
 }
\ No newline at end of file
@@ -0,0 +1,240 @@
+import path from "path";
+import fs from "fs";
+import {addPackageDependents, getPackageDependencies, PackageJson, processSpawn} from "@monk-js/runner";
+import {incrementVersion, ReleaseType} from "@/semver";
+
+/**
+ * Parsed Conventional Commits message
+ */
+export type ConventionalCommit = {
+    hash: string,
+    type: string,
+    scope: string | null,
+    subject: string,
+    /**
+     * Breaking change description, `null` if the commit is not breaking
+     */
+    breaking: string | null
+}
+
+/**
+ * Package change described in a changeset
+ */
+export type PackageChange = {
+    release: ReleaseType,
+    summary: string
+}
+
+/**
+ * Package release computed from its commits or changesets
+ */
+export type PackageRelease = {
+    file: string,
+    name: string,
+    version: string,
+    newVersion: string,
+    release: ReleaseType,
+    /**
+     * Commits since the last package tag that caused the release
+     */
+    commits: ConventionalCommit[],
+    /**
+     * Changeset summaries that caused the release
+     */
+    changes: PackageChange[],
+    /**
+     * Released workspace dependencies that caused the release
+     */
+    dependencies: string[]
+}
+
+/**
+ * Release types from the lowest to the highest
+ */
+const RELEASE_ORDER: ReleaseType[] = ['patch', 'minor', 'major'];
+
+/**
+ * Commit fields and records separators of the `git log` format
+ */
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * Parses a Conventional Commits message, e.g. `feat(runner)!: add watch mode`.
+ *
+ * @param hash Commit hash.
+ * @param message Full commit message.
+ * @returns Parsed commit, or `null` if the message doesn't follow the convention.
+ */
+export function parseConventionalCommit(hash: string, message: string): ConventionalCommit | null {
+    const [header, ...body] = message.trim().split(/\r?\n/);
+    const match = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/.exec(header ?? '');
+    if (!match) {
+        return null;
+    }
+    const note = /^BREAKING[ -]CHANGE:\s*([\s\S]*)$/m.exec(body.join('\n'));
+
+    return {
+        hash,
+        type: match[1].toLowerCase(),
+        scope: match[2] || null,
+        subject: match[4].trim(),
+        breaking: note ? note[1].trim() || match[4].trim() : match[3] ? match[4].trim() : null
+    };
+}
+
+/**
+ * Returns the release type caused by a commit: breaking changes are major, `feat` is minor, `fix` and `perf` are patch.
+ *
+ * @param commit Parsed commit.
+ * @returns Release type, or `null` if the commit doesn't need a release.
+ */
+export function getCommitRelease(commit: ConventionalCommit): ReleaseType | null {
+    if (commit.breaking != null) {
+        return 'major';
+    }
+    switch (commit.type) {
+        case 'feat':
+            return 'minor';
+        case 'fix':
+        case 'perf':
+            return 'patch';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Returns the highest of release types.
+ *
+ * @param releases Release types, `null` values are ignored.
+ */
+export function getHighestRelease(...releases: (ReleaseType | null)[]): ReleaseType | null {
+    return releases.reduce((highest, release) =>
+        release != null && (highest == null || RELEASE_ORDER.indexOf(release) > RELEASE_ORDER.indexOf(highest)) ? release : highest, null);
+}
+
+/**
+ * Formats independent release tag of a package, e.g. `@monk-js/utils@1.0.12`.
+ *
+ * @param name Package name.
+ * @param version Package version.
+ */
+export function getPackageTag(name: string, version: string): string {
+    return `${name}@${version}`;
+}
+
+/**
+ * Finds the tag of the current package version: the independent `name@version` tag, falling back to the lockstep `vX.Y.Z` tag.
+ *
+ * @param root Workspace root directory.
+ * @param name Package name.
+ * @param version Current package version.
+ * @returns Tag name, or `null` if the version was never tagged.
+ */
+export async function getLastPackageTag(root: string, name: string, version: string): Promise<string | null> {
+    for (const tag of [getPackageTag(name, version), `v${version}`]) {
+        const found = await processSpawn('git', ['tag', '--list', tag], {cwd: root}) as string;
+        if (found.trim() === tag) {
+            return tag;
+        }
+    }
+    return null;
+}
+
+/**
+ * Lists Conventional Commits touching a package directory.
+ *
+ * @param root Workspace root directory.
+ * @param directory Package directory.
+ * @param since Git ref to list commits after, `null` for the whole history.
+ */
+export async function getPackageCommits(root: string, directory: string, since: string | null): Promise<ConventionalCommit[]> {
+    const range = since != null ? `${since}..HEAD` : 'HEAD';
+    const log = await processSpawn('git', ['log', `--format=%H${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`, range, '--', path.relative(root, directory) || '.'], {cwd: root}) as string;
+
+    return log.split(RECORD_SEPARATOR)
+        .map(record => record.trim())
+        .filter(record => record !== '')
+        .map(record => {
+            const [hash, message] = record.split(FIELD_SEPARATOR);
+            return parseConventionalCommit(hash, message ?? '');
+        })
+        .filter(commit => commit != null);
+}
+
+/**
+ * Adds a patch release of every package depending on released packages, directly or transitively.
+ * Dev dependencies don't cause releases.
+ *
+ * @param packages Package file list.
+ * @param releases Releases by package name, expanded in place.
+ */
+export function addDependentReleases(packages: string[], releases: Record<string, PackageRelease>): Record<string, PackageRelease> {
+    const {files, deps} = getPackageDependencies(packages, [], ['dependencies', 'peerDependencies', 'optionalDependencies']);
+    const dependents = addPackageDependents(deps, Object.fromEntries(Object.keys(releases).map(name => [name, 'changed'])));
+
+    for (const name of Object.keys(dependents)) {
+        const dependencies = deps[name].filter(dep => Object.hasOwn(dependents, dep));
+        if (Object.hasOwn(releases, name)) {
+            releases[name].dependencies = dependencies;
+            continue;
+        }
+        const file = Object.keys(files).find(file => files[file] === name);
+        const {version}: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        releases[name] = {
+            file,
+            name,
+            version,
+            newVersion: incrementVersion(version, 'patch'),
+            release: 'patch',
+            commits: [],
+            changes: [],
+            dependencies
+        };
+    }
+
+    return releases;
+}
+
+/**
+ * Computes independent releases: every package is bumped according to its commits since its last tag,
+ * and packages depending on released packages get a patch release.
+ *
+ * @param root Workspace root directory.
+ * @param packages Package file list.
+ * @returns Releases by package name, packages without changes are not included.
+ */
+export async function getIndependentReleases(root: string, packages: string[]): Promise<Record<string, PackageRelease>> {
+    const releases: Record<string, PackageRelease> = {};
+
+    for (const file of packages) {
+        const packageInfo: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+        const tag = await getLastPackageTag(root, packageInfo.name, packageInfo.version);
+        const commits = (await getPackageCommits(root, path.dirname(file), tag))
+            .filter(commit => getCommitRelease(commit) != null);
+        const release = getHighestRelease(...commits.map(getCommitRelease));
+        console.log(`Package: ${packageInfo.name}. Since: ${tag ?? 'first commit'}. Release: ${release ?? 'none'}`);
+
+        if (release != null) {
+            releases[packageInfo.name] = {
+                file,
+                name: packageInfo.name,
+                version: packageInfo.version,
+                newVersion: incrementVersion(packageInfo.version, release),
+                release,
+                commits,
+                changes: [],
+                dependencies: []
+            };
+        }
+    }
+
+    addDependentReleases(packages, releases);
+    for (const release of Object.values(releases).filter(release => release.commits.length === 0)) {
+        console.log(`Package: ${release.name}. Release: patch (depends on ${release.dependencies.join(', ')})`);
+    }
+
+    return releases;
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import path from "path";
+import fs from "fs";
+
+/**
+ * Number of unchanged lines around the changes in a diff hunk
+ */
+const DIFF_CONTEXT = 3;
+
+/**
+ * Creates a unified diff of two file contents.
+ *
+ * @param file File name shown in the diff header.
+ * @param before Original content, `null` if the file doesn't exist.
+ * @param after New content, `null` if the file is removed.
+ * @returns Unified diff, empty if the contents are equal.
+ */
+export function createUnifiedDiff(file: string, before: string | null, after: string | null): string {
+    if (before === after) {
+        return '';
+    }
+    const toLines = (content: string | null) => content == null || content === '' ? [] : content.replace(/\r?\n$/, '').split(/\r?\n/);
+    const a = toLines(before);
+    const b = toLines(after);
+
+    // Common prefix and suffix are trimmed, so that the longest common subsequence is computed for the changed part only
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let end = 0;
+    while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) {
+        end++;
+    }
+    const middleA = a.slice(start, a.length - end);
+    const middleB = b.slice(start, b.length - end);
+    const lcs = Array.from({length: middleA.length + 1}, () => new Array<number>(middleB.length + 1).fill(0));
+    for (let i = middleA.length - 1; i >= 0; i--) {
+        for (let j = middleB.length - 1; j >= 0; j--) {
+            lcs[i][j] = middleA[i] === middleB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    // Edit script: ' ' unchanged, '-' removed, '+' added line
+    const edits: { op: ' ' | '-' | '+', line: string }[] = a.slice(0, start).map(line => ({op: ' ', line}));
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length || j < middleB.length) {
+        if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+            edits.push({op: ' ', line: middleA[i++]});
+            j++;
+        } else if (i < middleA.length && (j === middleB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            edits.push({op: '-', line: middleA[i++]});
+        } else {
+            edits.push({op: '+', line: middleB[j++]});
+        }
+    }
+    edits.push(...a.slice(a.length - end).map(line => ({op: ' ' as const, line})));
+
+    const lines = [`--- ${before == null ? '/dev/null' : `a/${file}`}`, `+++ ${after == null ? '/dev/null' : `b/${file}`}`];
+    let index = 0;
+    while (index < edits.length) {
+        if (edits[index].op === ' ') {
+            index++;
+            continue;
+        }
+        // Extend the hunk while the next change is close enough to share the context
+        const hunkStart = Math.max(0, index - DIFF_CONTEXT);
+        let hunkEnd = index;
+        while (hunkEnd < edits.length) {
+            const next = edits.findIndex((edit, position) => position > hunkEnd && edit.op !== ' ');
+            if (next !== -1 && next - hunkEnd <= DIFF_CONTEXT * 2) {
+                hunkEnd = next;
+            } else {
+                break;
+            }
+        }
+        hunkEnd = Math.min(edits.length, hunkEnd + DIFF_CONTEXT + 1);
+
+        const hunk = edits.slice(hunkStart, hunkEnd);
+        const oldStart = edits.slice(0, hunkStart).filter(edit => edit.op !== '+').length;
+        const newStart = edits.slice(0, hunkStart).filter(edit => edit.op !== '-').length;
+        const oldLength = hunk.filter(edit => edit.op !== '+').length;
+        const newLength = hunk.filter(edit => edit.op !== '-').length;
+        lines.push(`@@ -${oldLength > 0 ? oldStart + 1 : oldStart},${oldLength} +${newLength > 0 ? newStart + 1 : newStart},${newLength} @@`);
+        lines.push(...hunk.map(edit => `${edit.op}${edit.line}`));
+        index = hunkEnd;
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes or removes a file if its content changes. In dry-run mode a unified diff is printed instead.
+ *
+ * @param file File path.
+ * @param content New content, `null` to remove the file.
+ * @param dryRun Print the diff without writing.
+ * @returns `true` if the file content changes.
+ */
+export function writeFileChanges(file: string, content: string | null, dryRun = false): boolean {
+    const before = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+    if (before === content) {
+        return false;
+    }
+
+    if (dryRun) {
+        process.stdout.write(createUnifiedDiff(path.relative(process.cwd(), file).replace(/\\/g, '/'), before, content));
+    } else if (content == null) {
+        fs.rmSync(file);
+    } else {
+        fs.mkdirSync(path.dirname(file), {recursive: true});
+        fs.writeFileSync(file, content);
+    }
+    return true;
+}
\ No newline at end of file
@@ -1 +1,6 @@
-export * from "@/utils";
\ No newline at end of file
+export * from "@/utils";
+export * from "@/semver";
+export * from "@/commits";
+export * from "@/changelog";
+export * from "@/changeset";
+export * from "@/files";
\ No newline at end of file
@@ -0,0 +1,214 @@
+/**
+ * Version release type
+ */
+export type ReleaseType = 'major' | 'minor' | 'patch' | 'prerelease';
+
+/**
+ * Release types
+ */
+export const RELEASE_TYPES: ReleaseType[] = ['major', 'minor', 'patch', 'prerelease'];
+
+/**
+ * Parsed semantic version
+ */
+export type SemVer = {
+    major: number,
+    minor: number,
+    patch: number,
+    prerelease: (string | number)[],
+    build: string[]
+}
+
+/**
+ * Semantic version 2.0.0 pattern
+ */
+const SEMVER_PATTERN = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Dependency range that can be rewritten: optional `workspace:` protocol, optional `^`, `~`, `>=` or `=` operator
+ * and exact version. Ranges with `>`, `<` and `<=` would exclude the new version and are not rewritten.
+ */
+const RANGE_PATTERN = /^(workspace:)?(\^|~|>=|=)?(\S+)$/;
+
+/**
+ * Parses a semantic version.
+ *
+ * @param version Version string, e.g. `1.2.3-beta.1`.
+ * @returns Parsed version, or `null` if the version is invalid.
+ */
+export function parseVersion(version: string): SemVer | null {
+    const match = SEMVER_PATTERN.exec(String(version ?? '').trim());
+    if (!match) {
+        return null;
+    }
+    return {
+        major: parseInt(match[1]),
+        minor: parseInt(match[2]),
+        patch: parseInt(match[3]),
+        prerelease: match[4]?.split('.').map(part => /^\d+$/.test(part) ? parseInt(part) : part) ?? [],
+        build: match[5]?.split('.') ?? []
+    };
+}
+
+/**
+ * Checks whether a string is a valid semantic version.
+ *
+ * @param version Version string.
+ */
+export function isValidVersion(version: string): boolean {
+    return parseVersion(version) != null;
+}
+
+/**
+ * Formats a parsed version, build metadata is dropped.
+ *
+ * @param version Parsed version.
+ */
+export function formatVersion(version: SemVer): string {
+    const prerelease = version.prerelease.length > 0 ? `-${version.prerelease.join('.')}` : '';
+    return `${version.major}.${version.minor}.${version.patch}${prerelease}`;
+}
+
+/**
+ * Increments a version the same way `npm version` does. A prerelease of the next version
+ * is released as is by the matching release type, e.g. `1.1.0-beta.2` => `1.1.0` on `minor`.
+ *
+ * @param version Current version.
+ * @param release Release type.
+ * @param preid Prerelease identifier, e.g. `beta`.
+ * @returns New version.
+ * @throws Error if the version or the release type is invalid.
+ */
+export function incrementVersion(version: string, release: ReleaseType, preid?: string): string {
+    const current = parseVersion(version);
+    if (current == null) {
+        throw new Error(`Invalid version "${version}"`);
+    }
+    const isPrerelease = current.prerelease.length > 0;
+
+    switch (release) {
+        case 'major':
+            if (!isPrerelease || current.minor !== 0 || current.patch !== 0) {
+                current.major++;
+            }
+            current.minor = 0;
+            current.patch = 0;
+            current.prerelease = [];
+            break;
+        case 'minor':
+            if (!isPrerelease || current.patch !== 0) {
+                current.minor++;
+            }
+            current.patch = 0;
+            current.prerelease = [];
+            break;
+        case 'patch':
+            if (!isPrerelease) {
+                current.patch++;
+            }
+            current.prerelease = [];
+            break;
+        case 'prerelease': {
+            if (!isPrerelease) {
+                current.patch++;
+                current.prerelease = preid ? [preid, 0] : [0];
+                break;
+            }
+            const last = current.prerelease[current.prerelease.length - 1];
+            if (preid && current.prerelease[0] !== preid) {
+                current.prerelease = [preid, 0];
+            } else if (typeof last === 'number') {
+                current.prerelease[current.prerelease.length - 1] = last + 1;
+            } else {
+                current.prerelease.push(0);
+            }
+            break;
+        }
+        default:
+            throw new Error(`Invalid release type "${release}", expected one of: ${RELEASE_TYPES.join(', ')}`);
+    }
+
+    return formatVersion(current);
+}
+
+/**
+ * Compares versions by precedence, build metadata is ignored.
+ *
+ * @param a First version.
+ * @param b Second version.
+ * @returns Negative if `a` is lower, positive if it's higher, `0` if they're equal.
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+    const compared = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+    if (compared !== 0 || a.prerelease.length === 0 || b.prerelease.length === 0) {
+        // A prerelease is lower than its release
+        return compared || b.prerelease.length - a.prerelease.length;
+    }
+    for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+        const [left, right] = [a.prerelease[i], b.prerelease[i]];
+        if (left !== right) {
+            if (typeof left === 'number' && typeof right === 'number') {
+                return left - right;
+            }
+            // Numeric identifiers are lower than alphanumeric ones
+            return typeof left === 'number' ? -1 : typeof right === 'number' ? 1 : String(left).localeCompare(String(right));
+        }
+    }
+    return a.prerelease.length - b.prerelease.length;
+}
+
+/**
+ * Parses the version of a single version range, e.g. `^1.2.0` or `workspace:~1.2.0`.
+ *
+ * @param range Dependency range.
+ * @returns Version, or `null` for symbolic and complex ranges.
+ */
+export function getRangeVersion(range: string): SemVer | null {
+    const match = RANGE_PATTERN.exec(range ?? '');
+    return match ? parseVersion(match[3]) : null;
+}
+
+/**
+ * Checks whether a version satisfies a single version range.
+ *
+ * @param version Version.
+ * @param range Dependency range, e.g. `^1.2.0`.
+ * @returns `null` if the range can't be checked, like `workspace:^` or `>=1.0.0 <2.0.0`.
+ */
+export function satisfiesRange(version: string, range: string): boolean | null {
+    const target = parseVersion(version);
+    const base = getRangeVersion(range);
+    if (target == null || base == null) {
+        return null;
+    }
+
+    const compared = compareVersions(target, base);
+    switch (RANGE_PATTERN.exec(range)[2] ?? '=') {
+        case '^':
+            // `^0.x` locks the minor version, `^0.0.x` the patch one
+            return compared >= 0 && target.major === base.major && (base.major > 0 || (target.minor === base.minor && (base.minor > 0 || target.patch === base.patch)));
+        case '~':
+            return compared >= 0 && target.major === base.major && target.minor === base.minor;
+        case '>=':
+            return compared >= 0;
+        default:
+            return compared === 0;
+    }
+}
+
+/**
+ * Rewrites a dependency range to a new version, keeping its prefix (`^`, `~`, `>=`, `=`, `workspace:`).
+ * Symbolic ranges like `*`, `workspace:^`, upper bounds like `<2.0.0` and complex ranges are kept as is.
+ *
+ * @param range Current dependency range.
+ * @param version New dependency version.
+ * @returns New range, or `null` if the range should not be changed.
+ */
+export function updateDependencyRange(range: string, version: string): string | null {
+    const match = RANGE_PATTERN.exec(range ?? '');
+    if (!match || !isValidVersion(match[3])) {
+        return null;
+    }
+    const updated = `${match[1] ?? ''}${match[2] ?? ''}${version}`;
+    return updated !== range ? updated : null;
+}
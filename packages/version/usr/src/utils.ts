@@ -1,7 +1,13 @@
 import path from "path";
 import fs from "fs";
 import {cpus} from "node:os";
-import {CommandExecutionError, CommandLineError, PackageJson} from "@monk-js/runner";
+import {formatJson, getJsonFormat} from "@monk-js/utils";
+import {CommandExecutionError, CommandLineError, DEPENDENCY_TYPES, PackageJson} from "@monk-js/runner";
+import {incrementVersion, isValidVersion, ReleaseType, updateDependencyRange} from "@/semver";
+import {getIndependentReleases, getPackageTag, PackageRelease} from "@/commits";
+import {getChangesetReleases, getPackagesWithoutChangeset, readChangesets} from "@/changeset";
+import {renderChangelogEntry, writeChangelog} from "@/changelog";
+import {writeFileChanges} from "@/files";
 
 /**
  * Version command environment
@@ -10,23 +16,82 @@ export type VersionEnv = {
     root: string,
     packages: string,
     version: string,
+    bump: ReleaseType,
+    preid: string,
+    independent: boolean,
+    summary: string,
+    since: string,
+    dryRun: boolean,
 }
 
 /**
- * Updates package version
+ * New versions by package name
+ */
+export type PackageVersions = Record<string, string>;
+
+/**
+ * Computes new versions by bumping the current version of every package.
+ *
+ * @param packages Package file list.
+ * @param release Release type.
+ * @param preid Prerelease identifier, e.g. `beta`.
+ * @returns New versions by package name.
+ * @throws Error if a package has an invalid version.
+ */
+export function getBumpedVersions(packages: string[], release: ReleaseType, preid?: string): PackageVersions {
+    const versions: PackageVersions = {};
+
+    for (const file of packages) {
+        const {name, version}: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        try {
+            versions[name] = incrementVersion(version, release, preid);
+        } catch (e: unknown) {
+            throw new Error(`Package: ${name}. ${(e as Error).message}`);
+        }
+    }
+
+    return versions;
+}
+
+/**
+ * Updates package version and the ranges of its workspace dependencies, keeping the file formatting
  * @param errors Errors array
- * @param version New version
+ * @param versions New versions by package name
  * @param file package.json file path
+ * @param dryRun Print the diff without writing
  */
-export async function setPackageVersion(errors: CommandExecutionError[], version: string, file: string) {
+export async function setPackageVersion(errors: CommandExecutionError[], versions: PackageVersions, file: string, dryRun = false) {
     const buildDirectory = path.dirname(file);
 
     try {
-        const packageInfo: PackageJson = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        const content = fs.readFileSync(file, 'utf-8');
+        const packageInfo: PackageJson = JSON.parse(content);
         console.log(`Package: ${packageInfo.name}. Starting...`);
         await null;
-        packageInfo.version = version;
-        fs.writeFileSync(file, JSON.stringify(packageInfo, null, 2));
+        let changed = false;
+
+        const version = versions[packageInfo.name];
+        if (version != null && version !== packageInfo.version) {
+            console.log(`Package: ${packageInfo.name}. Version: ${packageInfo.version} => ${version}`);
+            packageInfo.version = version;
+            changed = true;
+        }
+
+        for (const type of DEPENDENCY_TYPES) {
+            const dependencies = packageInfo[type] ?? {};
+            for (const dep of Object.keys(dependencies).filter(dep => versions[dep] != null)) {
+                const range = updateDependencyRange(dependencies[dep], versions[dep]);
+                if (range != null) {
+                    console.log(`Package: ${packageInfo.name}. Dependency: ${dep}: ${dependencies[dep]} => ${range}`);
+                    dependencies[dep] = range;
+                    changed = true;
+                }
+            }
+        }
+
+        if (changed) {
+            writeFileChanges(file, formatJson(packageInfo, getJsonFormat(content)), dryRun);
+        }
         console.log(`Package: ${packageInfo.name}. Successful!`);
     } catch (e: unknown) {
         const error: CommandLineError = e as unknown as CommandLineError;
@@ -40,17 +105,33 @@ export async function setPackageVersion(errors: CommandExecutionError[], version
  * Executes a specified package command in parallel with a limited number of threads.
  *
  * @param packages Package file list.
- * @param version New package version
+ * @param version New version of all packages, or new versions by package name
+ * @param dryRun Print the diff without writing
  * @returns `false` if no errors occurred, or an array of command error objects if errors were encountered.
  */
-export async function updatePackageVersion(packages: string[], version: string): Promise<false | CommandExecutionError[]> {
+export async function updatePackageVersion(packages: string[], version: string | PackageVersions, dryRun = false): Promise<false | CommandExecutionError[]> {
     /**
      * Maximum number of threads available for processing.
      * It is calculated as half of the number of CPU cores (rounded) or a minimum of 2 threads.
      */
     const maxThreads = Math.max(Math.round(cpus().length / 2), 2);
 
-    console.log(`Updating version to "${version}" using max threads: ${maxThreads}`);
+    const versions: PackageVersions = typeof version === 'string'
+        ? Object.fromEntries(packages.map(file => [JSON.parse(fs.readFileSync(file, 'utf-8')).name, version]))
+        : version;
+
+    const invalid = Object.keys(versions).filter(name => !isValidVersion(versions[name]));
+    if (invalid.length > 0) {
+        const errors: CommandExecutionError[] = invalid.map(name => ({file: name, error: {stdout: '', stderr: `Invalid version "${versions[name]}"`, code: 1}}));
+        console.error(typeof version === 'string'
+            ? `Invalid version "${version}"`
+            : `Invalid versions: ${invalid.map(name => `${name}@${versions[name]}`).join(', ')}`);
+        return errors;
+    }
+
+    console.log(typeof version === 'string'
+        ? `Updating version to "${version}" using max threads: ${maxThreads}`
+        : `Updating versions using max threads: ${maxThreads}`);
 
     console.log(`Packages: ${packages.length}`);
 
@@ -58,7 +139,7 @@ export async function updatePackageVersion(packages: string[], version: string):
     const packagesCopy = [...packages];
 
     const errors: CommandExecutionError[] = [];
-    const buildCommand = setPackageVersion.bind(null, errors, version);
+    const buildCommand = (file: string) => setPackageVersion(errors, versions, file, dryRun);
 
     while (packagesCopy.length > 0) {
         const chunk = packagesCopy.splice(0, maxThreads);
@@ -72,6 +153,111 @@ export async function updatePackageVersion(packages: string[], version: string):
         return errors;
     }
 
-    console.log(`Process completed successfully.`);
+    console.log(dryRun ? `Dry run completed, no files were written.` : `Process completed successfully.`);
+    return false;
+}
+
+/**
+ * Applies releases: updates package versions and dependency ranges, and prepends changelog entries.
+ *
+ * @param packages Package file list.
+ * @param releases Releases by package name.
+ * @param dryRun Print the diff without writing.
+ * @returns `false` if no errors occurred, or an array of command error objects if errors were encountered.
+ */
+async function applyReleases(packages: string[], releases: Record<string, PackageRelease>, dryRun = false): Promise<false | CommandExecutionError[]> {
+    const names = Object.keys(releases);
+
+    const errors = await updatePackageVersion(packages, Object.fromEntries(names.map(name => [name, releases[name].newVersion])), dryRun);
+    if (errors !== false) {
+        return errors;
+    }
+
+    for (const name of names) {
+        writeChangelog(path.dirname(releases[name].file), renderChangelogEntry(releases[name], releases), dryRun);
+    }
+
+    console.log(`Tags to create: ${names.map(name => getPackageTag(name, releases[name].newVersion)).join(', ')}`);
+    return false;
+}
+
+/**
+ * Releases packages independently: versions are computed from Conventional Commits since the last tag of each package,
+ * and a changelog entry is prepended for every released package.
+ *
+ * @param root Workspace root directory.
+ * @param packages Package file list.
+ * @param dryRun Print the diff without writing.
+ * @returns `false` if no errors occurred, or an array of command error objects if errors were encountered.
+ */
+export async function updateIndependentVersions(root: string, packages: string[], dryRun = false): Promise<false | CommandExecutionError[]> {
+    const releases = await getIndependentReleases(root, packages);
+
+    if (Object.keys(releases).length === 0) {
+        console.log(`No packages to release.`);
+        return false;
+    }
+
+    return applyReleases(packages, releases, dryRun);
+}
+
+/**
+ * Releases packages from pending changesets, consumed changeset files are removed.
+ *
+ * @param root Workspace root directory.
+ * @param packages Package file list.
+ * @param dryRun Print the diff without writing.
+ * @returns `false` if no errors occurred, or an array of command error objects if errors were encountered.
+ */
+export async function updateChangesetVersions(root: string, packages: string[], dryRun = false): Promise<false | CommandExecutionError[]> {
+    const changesets = readChangesets(root);
+    const releases = getChangesetReleases(packages, changesets);
+
+    if (Object.keys(releases).length === 0) {
+        console.log(`No packages to release.`);
+        return false;
+    }
+
+    const errors = await applyReleases(packages, releases, dryRun);
+    if (errors !== false) {
+        return errors;
+    }
+
+    for (const changeset of changesets) {
+        writeFileChanges(changeset.file, null, dryRun);
+    }
+    console.log(`Changesets consumed: ${changesets.length}`);
     return false;
+}
+
+/**
+ * Prints pending releases. When a git ref is given, packages changed since it must have a changeset.
+ *
+ * @param root Workspace root directory.
+ * @param packages Package file list.
+ * @param since Git ref to compare with.
+ * @returns `true` if every changed package has a changeset.
+ */
+export async function printChangesetStatus(root: string, packages: string[], since?: string): Promise<boolean> {
+    const changesets = readChangesets(root);
+    const releases = getChangesetReleases(packages, changesets);
+
+    console.log(`Changesets: ${changesets.length}`);
+    for (const release of Object.values(releases)) {
+        const reason = release.changes.length > 0 ? '' : ` (depends on ${release.dependencies.join(', ')})`;
+        console.log(`Package: ${release.name}. Release: ${release.release} ${release.version} => ${release.newVersion}${reason}`);
+    }
+
+    if (since == null) {
+        return true;
+    }
+    const missing = await getPackagesWithoutChangeset(root, packages, changesets, since);
+    if (missing.length > 0) {
+        console.error(`Packages changed since ${since} without a changeset: ${missing.join(', ')}`);
+        console.error(`Run "monk-version add" to describe the changes.`);
+        return false;
+    }
+
+    console.log(`Every package changed since ${since} has a changeset.`);
+    return true;
 }
\ No newline at end of file
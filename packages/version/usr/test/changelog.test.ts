@@ -0,0 +1,75 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {PackageRelease} from "@/commits";
+import {CHANGELOG_FILE, renderChangelogEntry, writeChangelog} from "@/changelog";
+
+const release: PackageRelease = {
+    file: '/w/a/package.json',
+    name: 'a',
+    version: '1.0.0',
+    newVersion: '2.0.0',
+    release: 'major',
+    commits: [
+        {hash: '1234567890', type: 'feat', scope: 'cli', subject: 'add --root', breaking: null},
+        {hash: 'abcdef1234', type: 'fix', scope: null, subject: 'rename option', breaking: 'use --root'},
+        {hash: 'fedcba9876', type: 'docs', scope: null, subject: 'update readme', breaking: null}
+    ],
+    changes: [{release: 'major', summary: 'Require --root\nin scripts'}],
+    dependencies: ['b']
+};
+
+describe('renderChangelogEntry', () => {
+    it('groups changes by release and commits by type', () => {
+        const releases = {a: release, b: {...release, name: 'b', newVersion: '1.0.1'}};
+
+        assert.equal(renderChangelogEntry(release, releases, new Date('2024-05-01T12:00:00Z')), [
+            '## 2.0.0 (2024-05-01)',
+            '',
+            '### Major Changes',
+            '',
+            '* Require --root',
+            '  in scripts',
+            '',
+            '### Breaking Changes',
+            '',
+            '* use --root (abcdef1)',
+            '',
+            '### Features',
+            '',
+            '* **cli:** add --root (1234567)',
+            '',
+            '### Bug Fixes',
+            '',
+            '* rename option (abcdef1)',
+            '',
+            '### Dependencies',
+            '',
+            '* b updated to 1.0.1',
+            ''
+        ].join('\n'));
+    });
+});
+
+describe('writeChangelog', () => {
+    let root: string;
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-version-changelog-'));
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('prepends entries below the title', () => {
+        const file = path.resolve(root, CHANGELOG_FILE);
+
+        writeChangelog(root, '## 1.0.0\n');
+        assert.equal(fs.readFileSync(file, 'utf-8'), '# Changelog\n\n## 1.0.0\n');
+        writeChangelog(root, '## 1.1.0\n');
+        assert.equal(fs.readFileSync(file, 'utf-8'), '# Changelog\n\n## 1.1.0\n\n## 1.0.0\n');
+    });
+});
\ No newline at end of file
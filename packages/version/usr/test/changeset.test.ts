@@ -0,0 +1,97 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {formatChangeset, getChangesetReleases, parseChangeset, parseChangesetReleases, readChangesets, writeChangeset} from "@/changeset";
+
+describe('parseChangeset', () => {
+    it('parses releases and summary', () => {
+        const changeset = parseChangeset('---\n"@monk-js/utils": minor\n\'@monk-js/runner\': patch\n---\n\nAdd glob support\n', 'add-glob.md');
+
+        assert.deepEqual(changeset, {
+            file: 'add-glob.md',
+            releases: {'@monk-js/utils': 'minor', '@monk-js/runner': 'patch'},
+            summary: 'Add glob support'
+        });
+    });
+
+    it('parses Windows line endings', () => {
+        const changeset = parseChangeset('---\r\n"a": major\r\n---\r\n\r\nBreaking\r\n');
+
+        assert.deepEqual(changeset.releases, {a: 'major'});
+        assert.equal(changeset.summary, 'Breaking');
+    });
+
+    it('parses a changeset without releases', () => {
+        assert.deepEqual(parseChangeset('---\n---\n\nDocs only').releases, {});
+    });
+
+    it('reads back formatted changesets', () => {
+        const changeset = {file: null, releases: {'@monk-js/utils': 'patch' as const}, summary: 'Fix paths'};
+
+        assert.deepEqual(parseChangeset(formatChangeset(changeset)), changeset);
+    });
+
+    it('rejects changesets without front matter', () => {
+        assert.throws(() => parseChangeset('Summary only', 'a.md'), /Changeset a\.md has no front matter/);
+    });
+
+    it('rejects invalid release types', () => {
+        assert.throws(() => parseChangeset('---\n"a": prerelease\n---\n'), /invalid release ""a": prerelease"/);
+    });
+});
+
+
+describe('changeset releases', () => {
+    let root: string;
+    let packages: string[];
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-version-changeset-'));
+        packages = Object.entries({
+            a: {name: 'a', version: '1.0.0'},
+            b: {name: 'b', version: '1.0.0', dependencies: {a: '^1.0.0'}},
+            c: {name: 'c', version: '1.0.0', devDependencies: {a: '^1.0.0'}}
+        }).map(([directory, json]) => {
+            const file = path.resolve(root, directory, 'package.json');
+            fs.mkdirSync(path.dirname(file));
+            fs.writeFileSync(file, JSON.stringify(json));
+            return file;
+        });
+    });
+
+    after(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('parses package arguments with release overrides', () => {
+        assert.deepEqual(parseChangesetReleases(['a', 'b:major'], 'minor'), {a: 'minor', b: 'major'});
+        assert.throws(() => parseChangesetReleases(['a:huge'], 'minor'), /Invalid release type "huge" of a/);
+    });
+
+    it('writes and reads changesets', () => {
+        const file = writeChangeset(root, {file: null, releases: {a: 'patch'}, summary: 'Fix the glob matching'});
+
+        assert.match(path.basename(file), /^fix-the-glob-matching-[0-9a-f]{6}\.md$/);
+        assert.deepEqual(readChangesets(root), [{file, releases: {a: 'patch'}, summary: 'Fix the glob matching'}]);
+        fs.rmSync(file);
+    });
+
+    it('takes the highest release of a package and patches its dependents', () => {
+        const releases = getChangesetReleases(packages, [
+            {file: 'one.md', releases: {a: 'patch'}, summary: 'Fix'},
+            {file: 'two.md', releases: {a: 'minor'}, summary: 'Feature'}
+        ]);
+
+        assert.deepEqual(Object.keys(releases).sort(), ['a', 'b']);
+        assert.equal(releases.a.newVersion, '1.1.0');
+        assert.deepEqual(releases.a.changes, [{release: 'patch', summary: 'Fix'}, {release: 'minor', summary: 'Feature'}]);
+        assert.equal(releases.b.newVersion, '1.0.1');
+        assert.deepEqual(releases.b.dependencies, ['a']);
+    });
+
+    it('rejects unknown packages', () => {
+        assert.throws(() => getChangesetReleases(packages, [{file: 'one.md', releases: {d: 'patch'}, summary: 'Fix'}]), /Changeset one.md: unknown package d/);
+    });
+});
\ No newline at end of file
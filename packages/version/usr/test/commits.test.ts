@@ -0,0 +1,86 @@
+import {after, before, describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {execFileSync} from "node:child_process";
+import {getCommitRelease, getHighestRelease, getIndependentReleases, parseConventionalCommit} from "@/commits";
+
+describe('parseConventionalCommit', () => {
+    it('parses type, scope and subject', () => {
+        assert.deepEqual(parseConventionalCommit('abc', 'feat(runner): add watch mode\n\nDetails'), {
+            hash: 'abc',
+            type: 'feat',
+            scope: 'runner',
+            subject: 'add watch mode',
+            breaking: null
+        });
+        assert.equal(parseConventionalCommit('abc', 'Update readme'), null);
+    });
+
+    it('detects breaking changes', () => {
+        assert.equal(parseConventionalCommit('abc', 'feat!: drop node 16')?.breaking, 'drop node 16');
+        assert.equal(parseConventionalCommit('abc', 'fix: rename option\n\nBREAKING CHANGE: use --root')?.breaking, 'use --root');
+    });
+
+    it('maps commits to releases', () => {
+        const release = (message: string) => getCommitRelease(parseConventionalCommit('abc', message));
+
+        assert.equal(release('feat!: drop node 16'), 'major');
+        assert.equal(release('feat: add option'), 'minor');
+        assert.equal(release('perf: cache hashes'), 'patch');
+        assert.equal(release('docs: update readme'), null);
+        assert.equal(getHighestRelease(null, 'patch', 'major', 'minor'), 'major');
+        assert.equal(getHighestRelease(null), null);
+    });
+});
+
+describe('getIndependentReleases', () => {
+    let root: string;
+    let packages: string[];
+
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@localhost', ...args], {cwd: root, stdio: 'pipe'});
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-version-commits-'));
+        packages = Object.entries({
+            a: {name: 'a', version: '1.0.0'},
+            b: {name: 'b', version: '1.0.0', dependencies: {a: '^1.0.0'}},
+            c: {name: 'c', version: '2.0.0', devDependencies: {a: '^1.0.0'}}
+        }).map(([directory, json]) => {
+            const file = path.resolve(root, directory, 'package.json');
+            fs.mkdirSync(path.dirname(file));
+            fs.writeFileSync(file, JSON.stringify(json));
+            return file;
+        });
+        git('init', '-q');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'feat: initial release');
+        git('tag', 'a@1.0.0');
+        git('tag', 'v1.0.0');
+        git('tag', 'c@2.0.0');
+        fs.writeFileSync(path.resolve(root, 'a/index.js'), '');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'feat(a): add index');
+        fs.writeFileSync(path.resolve(root, 'c/index.js'), '');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'docs(c): add index');
+        mock.method(console, 'log', () => undefined);
+    });
+
+    after(() => {
+        mock.restoreAll();
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('bumps changed packages and their dependents', async () => {
+        const releases = await getIndependentReleases(root, packages);
+
+        assert.deepEqual(Object.keys(releases).sort(), ['a', 'b']);
+        assert.equal(releases.a.newVersion, '1.1.0');
+        assert.deepEqual(releases.a.commits.map(commit => commit.subject), ['add index']);
+        assert.equal(releases.b.newVersion, '1.0.1');
+        assert.equal(releases.b.release, 'patch');
+        assert.deepEqual(releases.b.dependencies, ['a']);
+    });
+});
\ No newline at end of file
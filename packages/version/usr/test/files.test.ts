@@ -0,0 +1,43 @@
+import {describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {createUnifiedDiff} from "@/files";
+
+describe('createUnifiedDiff', () => {
+    it('returns nothing for equal contents', () => {
+        assert.equal(createUnifiedDiff('a.txt', 'a\n', 'a\n'), '');
+    });
+
+    it('shows changed lines with context', () => {
+        const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n') + '\n';
+        const after = ['1', '2', '3', '4', 'five', '6', '7', '8', '9'].join('\n') + '\n';
+
+        assert.equal(createUnifiedDiff('a.txt', before, after), [
+            '--- a/a.txt',
+            '+++ b/a.txt',
+            '@@ -2,7 +2,7 @@',
+            ' 2',
+            ' 3',
+            ' 4',
+            '-5',
+            '+five',
+            ' 6',
+            ' 7',
+            ' 8',
+            ''
+        ].join('\n'));
+    });
+
+    it('splits distant changes into hunks', () => {
+        const lines = Array.from({length: 20}, (_, index) => `${index + 1}`);
+        const after = lines.map(line => line === '2' || line === '19' ? `${line}!` : line);
+
+        const diff = createUnifiedDiff('a.txt', lines.join('\n'), after.join('\n'));
+
+        assert.deepEqual(diff.split('\n').filter(line => line.startsWith('@@')), ['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+    });
+
+    it('diffs created and removed files against /dev/null', () => {
+        assert.equal(createUnifiedDiff('a.txt', null, 'a\nb\n'), '--- /dev/null\n+++ b/a.txt\n@@ -0,0 +1,2 @@\n+a\n+b\n');
+        assert.equal(createUnifiedDiff('a.txt', 'a\n', null), '--- a/a.txt\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-a\n');
+    });
+});
\ No newline at end of file
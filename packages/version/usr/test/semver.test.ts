@@ -0,0 +1,106 @@
+import {describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {compareVersions, incrementVersion, parseVersion, satisfiesRange, updateDependencyRange} from "@/semver";
+
+describe('incrementVersion', () => {
+    it('increments release versions', () => {
+        assert.equal(incrementVersion('1.2.3', 'major'), '2.0.0');
+        assert.equal(incrementVersion('1.2.3', 'minor'), '1.3.0');
+        assert.equal(incrementVersion('1.2.3', 'patch'), '1.2.4');
+    });
+
+    it('releases a prerelease of the next version as is', () => {
+        assert.equal(incrementVersion('2.0.0-beta.1', 'major'), '2.0.0');
+        assert.equal(incrementVersion('1.1.0-beta.2', 'minor'), '1.1.0');
+        assert.equal(incrementVersion('1.1.1-beta.2', 'patch'), '1.1.1');
+        assert.equal(incrementVersion('1.1.1-beta.2', 'minor'), '1.2.0');
+        assert.equal(incrementVersion('1.1.0-beta.2', 'major'), '2.0.0');
+    });
+
+    it('increments prerelease versions', () => {
+        assert.equal(incrementVersion('1.2.3', 'prerelease'), '1.2.4-0');
+        assert.equal(incrementVersion('1.2.3', 'prerelease', 'beta'), '1.2.4-beta.0');
+        assert.equal(incrementVersion('1.2.4-beta.0', 'prerelease', 'beta'), '1.2.4-beta.1');
+        assert.equal(incrementVersion('1.2.4-beta.1', 'prerelease', 'rc'), '1.2.4-rc.0');
+        assert.equal(incrementVersion('1.2.4-beta', 'prerelease'), '1.2.4-beta.0');
+    });
+
+    it('drops build metadata', () => {
+        assert.equal(incrementVersion('1.2.3+build.5', 'patch'), '1.2.4');
+    });
+
+    it('rejects invalid versions', () => {
+        assert.throws(() => incrementVersion('1.2', 'patch'), /Invalid version "1.2"/);
+    });
+});
+
+describe('compareVersions', () => {
+    const compare = (a: string, b: string) => Math.sign(compareVersions(parseVersion(a), parseVersion(b)));
+
+    it('compares versions by precedence', () => {
+        assert.equal(compare('1.2.3', '1.2.3'), 0);
+        assert.equal(compare('1.10.0', '1.9.0'), 1);
+        assert.equal(compare('1.0.0-beta.1', '1.0.0'), -1);
+        assert.equal(compare('1.0.0-beta.2', '1.0.0-beta.10'), -1);
+        assert.equal(compare('1.0.0-1', '1.0.0-beta'), -1);
+        assert.equal(compare('1.0.0+build.1', '1.0.0'), 0);
+    });
+});
+
+describe('satisfiesRange', () => {
+    it('checks caret ranges', () => {
+        assert.equal(satisfiesRange('1.9.0', '^1.2.0'), true);
+        assert.equal(satisfiesRange('2.0.0', '^1.2.0'), false);
+        assert.equal(satisfiesRange('1.1.0', '^1.2.0'), false);
+    });
+
+    it('locks the minor version of ^0.x ranges', () => {
+        assert.equal(satisfiesRange('0.1.5', '^0.1.2'), true);
+        assert.equal(satisfiesRange('0.2.0', '^0.1.2'), false);
+    });
+
+    it('locks the patch version of ^0.0.x ranges', () => {
+        assert.equal(satisfiesRange('0.0.3', '^0.0.3'), true);
+        assert.equal(satisfiesRange('0.0.4', '^0.0.3'), false);
+    });
+
+    it('checks tilde, minimum and exact ranges', () => {
+        assert.equal(satisfiesRange('1.2.9', '~1.2.0'), true);
+        assert.equal(satisfiesRange('1.3.0', '~1.2.0'), false);
+        assert.equal(satisfiesRange('3.0.0', '>=1.2.0'), true);
+        assert.equal(satisfiesRange('1.2.0', '1.2.0'), true);
+        assert.equal(satisfiesRange('1.2.1', '1.2.0'), false);
+    });
+
+    it('returns null for ranges that can\'t be checked', () => {
+        assert.equal(satisfiesRange('1.0.0', 'workspace:^'), null);
+        assert.equal(satisfiesRange('1.0.0', '>=1.0.0 <2.0.0'), null);
+    });
+});
+
+describe('updateDependencyRange', () => {
+    it('keeps the range prefix', () => {
+        assert.equal(updateDependencyRange('^1.0.0', '1.1.0'), '^1.1.0');
+        assert.equal(updateDependencyRange('~1.0.0', '1.0.1'), '~1.0.1');
+        assert.equal(updateDependencyRange('1.0.0', '2.0.0'), '2.0.0');
+        assert.equal(updateDependencyRange('workspace:^1.0.0', '1.1.0'), 'workspace:^1.1.0');
+        assert.equal(updateDependencyRange('>=1.0.0', '1.1.0'), '>=1.1.0');
+        assert.equal(updateDependencyRange('=1.0.0', '1.1.0'), '=1.1.0');
+    });
+
+    it('keeps upper bound ranges', () => {
+        assert.equal(updateDependencyRange('>1.0.0', '1.1.0'), null);
+        assert.equal(updateDependencyRange('<2.0.0', '1.1.0'), null);
+        assert.equal(updateDependencyRange('<=1.0.0', '1.1.0'), null);
+    });
+
+    it('keeps symbolic and complex ranges', () => {
+        assert.equal(updateDependencyRange('*', '1.1.0'), null);
+        assert.equal(updateDependencyRange('workspace:^', '1.1.0'), null);
+        assert.equal(updateDependencyRange('>=1.0.0 <2.0.0', '1.1.0'), null);
+    });
+
+    it('returns null if the range is up to date', () => {
+        assert.equal(updateDependencyRange('^1.1.0', '1.1.0'), null);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,68 @@
+import {after, before, describe, it, mock} from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {getBumpedVersions, updatePackageVersion} from "@/utils";
+
+describe('updatePackageVersion', () => {
+    let root: string;
+    let packages: string[];
+
+    const read = (name: string) => JSON.parse(fs.readFileSync(path.resolve(root, name, 'package.json'), 'utf-8'));
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'monk-version-'));
+        packages = Object.entries({
+            a: {name: 'a', version: '1.0.0'},
+            b: {name: 'b', version: '2.1.0', dependencies: {a: '^1.0.0'}, devDependencies: {c: '*'}},
+            c: {name: 'c', version: '0.1.0-beta.0', peerDependencies: {a: '~1.0.0'}}
+        }).map(([directory, json]) => {
+            const file = path.resolve(root, directory, 'package.json');
+            fs.mkdirSync(path.dirname(file));
+            fs.writeFileSync(file, JSON.stringify(json, null, '\t').replace(/\n/g, '\r\n') + '\r\n');
+            return file;
+        });
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'error', () => undefined);
+    });
+
+    after(() => {
+        mock.restoreAll();
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    it('bumps every package from its own version', () => {
+        assert.deepEqual(getBumpedVersions(packages, 'minor'), {a: '1.1.0', b: '2.2.0', c: '0.1.0'});
+    });
+
+    it('prints the changes without writing in dry-run mode', async () => {
+        const write = mock.method(process.stdout, 'write', () => true);
+        try {
+            assert.equal(await updatePackageVersion(packages, {a: '1.0.1'}, true), false);
+        } finally {
+            write.mock.restore();
+        }
+
+        assert.equal(read('a').version, '1.0.0');
+        assert.match(String(write.mock.calls[0].arguments[0]), /-\t"version": "1\.0\.0"\n\+\t"version": "1\.0\.1"/);
+    });
+
+    it('updates versions and dependent ranges', async () => {
+        assert.equal(await updatePackageVersion(packages, getBumpedVersions(packages, 'patch')), false);
+
+        assert.equal(read('a').version, '1.0.1');
+        assert.deepEqual(read('b').dependencies, {a: '^1.0.1'});
+        assert.deepEqual(read('b').devDependencies, {c: '*'});
+        assert.equal(read('c').version, '0.1.0');
+        assert.deepEqual(read('c').peerDependencies, {a: '~1.0.1'});
+        assert.match(fs.readFileSync(path.resolve(root, 'a/package.json'), 'utf-8'), /^\{\r\n\t"name": "a",\r\n\t"version": "1\.0\.1"\r\n\}\r\n$/);
+    });
+
+    it('rejects invalid versions without changes', async () => {
+        const errors = await updatePackageVersion(packages, '2.0');
+
+        assert.ok(errors !== false && errors.length === 3);
+        assert.equal(read('a').version, '1.0.1');
+    });
+});
\ No newline at end of file
@@ -1,4 +1,6 @@
 export * from '@monk-js/utils';
 export * from '@monk-js/bundler';
 export * from '@monk-js/runner';
-export * from '@monk-js/version';
\ No newline at end of file
+export * from '@monk-js/version';
+export * from '@monk-js/publish';
+export * from '@monk-js/doctor';
\ No newline at end of file
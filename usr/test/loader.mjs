@@ -0,0 +1,38 @@
+import path from "node:path";
+import fs from "node:fs";
+import {fileURLToPath, pathToFileURL} from "node:url";
+import ts from "typescript";
+
+const packagesDir = path.resolve(fileURLToPath(import.meta.url), '../../../packages');
+
+/**
+ * Resolves workspace imports to the package sources, so tests don't need the packages built:
+ * `@/*` to the `usr/src` directory of the importing package, `@monk-js/<name>` to `packages/<name>/usr/src/index.ts`.
+ */
+export async function resolve(specifier, context, nextResolve) {
+    const workspace = /^@monk-js\/([^/]+)$/.exec(specifier);
+    if (workspace != null && fs.existsSync(path.resolve(packagesDir, workspace[1], 'usr/src/index.ts'))) {
+        return {url: pathToFileURL(path.resolve(packagesDir, workspace[1], 'usr/src/index.ts')).href, shortCircuit: true};
+    }
+    if (specifier.startsWith('@/') && context.parentURL?.startsWith('file:')) {
+        const parent = path.relative(packagesDir, fileURLToPath(context.parentURL));
+        const name = parent.split(path.sep)[0];
+        return {url: pathToFileURL(path.resolve(packagesDir, name, 'usr/src', `${specifier.substring(2)}.ts`)).href, shortCircuit: true};
+    }
+    return nextResolve(specifier, context);
+}
+
+/**
+ * Transpiles TypeScript modules, types are checked by `tsc`.
+ */
+export async function load(url, context, nextLoad) {
+    if (!url.startsWith('file:') || !url.endsWith('.ts')) {
+        return nextLoad(url, context);
+    }
+    const file = fileURLToPath(url);
+    const {outputText} = ts.transpileModule(fs.readFileSync(file, 'utf-8'), {
+        fileName: file,
+        compilerOptions: {module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ESNext, esModuleInterop: true, sourceMap: false, inlineSourceMap: true}
+    });
+    return {format: 'module', source: outputText, shortCircuit: true};
+}
\ No newline at end of file
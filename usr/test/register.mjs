@@ -0,0 +1,4 @@
+import {register} from "node:module";
+
+// Runs workspace TypeScript sources in tests, `node --import ./usr/test/register.mjs --test`
+register('./loader.mjs', import.meta.url);
\ No newline at end of file